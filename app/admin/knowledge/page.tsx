@@ -0,0 +1,324 @@
+// app/admin/knowledge/page.tsx
+'use client';
+
+import { Fragment, useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import {
+  ArrowLeft, Upload, RefreshCw, Trash2, Eye, EyeOff, Loader2,
+  AlertCircle, FileText, Sheet, Database
+} from 'lucide-react';
+import type { KnowledgeAgent, KnowledgeSource } from '../../lib/knowledgeSources';
+
+interface ChunkPreview {
+  id: string;
+  text: string;
+  chunk?: number;
+  page?: number;
+}
+
+const AGENT_TABS: { id: KnowledgeAgent; label: string }[] = [
+  { id: 'energy', label: 'Energy Advisor' },
+  { id: 'customer', label: 'City Services' },
+];
+
+const ORIGIN_LABELS: Record<KnowledgeSource['origin'], string> = {
+  manifest: 'Manifest',
+  upload: 'Upload',
+  notebook: 'Notebook',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const sourceUrl = (source: string) => `/api/admin/knowledge/${encodeURIComponent(source)}`;
+
+// JSON request that throws the API's error message; an expired session goes back to login
+const request = async (url: string, init?: RequestInit) => {
+  const res = await fetch(url, init);
+  if (res.status === 401) {
+    window.location.href = '/login?next=/admin/knowledge';
+    throw new Error('Session expired');
+  }
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `Request failed (${res.status})`);
+  return data;
+};
+
+export default function KnowledgeConsolePage() {
+  const router = useRouter();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [agent, setAgent] = useState<KnowledgeAgent>('energy');
+  const [sources, setSources] = useState<KnowledgeSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [busySource, setBusySource] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ source: string; chunks: ChunkPreview[]; total: number } | null>(null);
+
+  // --- DATA ---
+  const loadSources = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await request('/api/admin/knowledge');
+      setSources(data.sources);
+      setError('');
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadSources(); }, [loadSources]);
+
+  // --- ACTIONS ---
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    setError('');
+    setNotice('');
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append('agent', agent);
+      const { source } = await request('/api/admin/knowledge', { method: 'POST', body: form });
+      setNotice(`Indexed ${source.source}: ${source.chunkCount} chunks.`);
+      await loadSources();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setUploading(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleReindex = async (source: string) => {
+    setBusySource(source);
+    setError('');
+    setNotice('');
+    try {
+      const { source: record } = await request(sourceUrl(source), { method: 'POST' });
+      setNotice(`Re-indexed ${record.source}: ${record.chunkCount} chunks.`);
+      if (preview?.source === source) setPreview(null);
+      await loadSources();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  const handleDelete = async (source: string) => {
+    if (!confirm(`Delete "${source}" and all of its chunks? The agents will no longer cite it.`)) return;
+    setBusySource(source);
+    setError('');
+    setNotice('');
+    try {
+      await request(sourceUrl(source), { method: 'DELETE' });
+      setNotice(`Deleted ${source}.`);
+      if (preview?.source === source) setPreview(null);
+      await loadSources();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  const togglePreview = async (source: string) => {
+    if (preview?.source === source) {
+      setPreview(null);
+      return;
+    }
+    setBusySource(source);
+    setError('');
+    try {
+      const data = await request(sourceUrl(source));
+      setPreview({ source, chunks: data.chunks, total: data.totalChunks });
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  const visible = sources.filter(s => s.agent === agent);
+  const countFor = (id: KnowledgeAgent) => sources.filter(s => s.agent === id).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/30 to-slate-50">
+      {/* Header */}
+      <header className="border-b border-slate-200 bg-white/80 backdrop-blur-sm">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <div className="relative w-60 h-16">
+            <Image
+              src="/static/images.png"
+              alt="City of Rancho Cordova"
+              fill
+              className="object-contain object-left"
+            />
+          </div>
+          <button
+            onClick={() => router.push('/')}
+            className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 hover:text-slate-900 hover:bg-slate-100 rounded-lg transition-all"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back to Chat
+          </button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900 mb-2">Knowledge Base</h1>
+          <p className="text-slate-600">Documents each agent answers from. Uploads are chunked, embedded and searchable immediately.</p>
+        </div>
+
+        {/* Agent Tabs */}
+        <div className="flex gap-2 border-b border-slate-200">
+          {AGENT_TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => { setAgent(tab.id); setPreview(null); }}
+              className={`px-4 py-2.5 text-sm font-semibold border-b-2 -mb-px transition-colors ${
+                agent === tab.id ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-700'
+              }`}
+            >
+              {tab.label}
+              <span className="ml-2 text-[11px] font-medium text-slate-400">{countFor(tab.id)}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Upload */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-5 bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40">
+          <div>
+            <p className="text-sm font-bold text-slate-800">Add a document</p>
+            <p className="text-xs text-slate-500">PDF or CSV, up to 20 MB. It will be tagged for the {AGENT_TABS.find(t => t.id === agent)?.label}.</p>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".pdf,.csv"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleUpload(e.target.files[0])}
+          />
+          <button
+            onClick={() => fileInput.current?.click()}
+            disabled={uploading}
+            className="flex items-center justify-center gap-2 px-5 py-2.5 bg-blue-600 hover:bg-blue-700 text-white text-sm font-bold rounded-xl shadow-lg shadow-blue-600/30 transition-all disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            {uploading ? 'Indexing...' : 'Upload'}
+          </button>
+        </div>
+
+        {/* Status */}
+        {error && (
+          <div className="flex items-center gap-3 p-4 bg-red-50 border border-red-100 text-red-600 text-sm rounded-xl font-medium">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+        {notice && !error && (
+          <div className="p-4 bg-emerald-50 border border-emerald-100 text-emerald-700 text-sm rounded-xl font-medium">{notice}</div>
+        )}
+
+        {/* Sources */}
+        <div className="bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" /> Loading sources...
+            </div>
+          ) : visible.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 py-16 text-sm text-slate-500">
+              <Database className="w-6 h-6 text-slate-300" />
+              No documents indexed for this agent yet.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[11px] font-semibold text-slate-400 uppercase tracking-wider border-b border-slate-100">
+                  <th className="px-5 py-3">Source</th>
+                  <th className="px-5 py-3">Origin</th>
+                  <th className="px-5 py-3 text-right">Chunks</th>
+                  <th className="px-5 py-3">Indexed</th>
+                  <th className="px-5 py-3 text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(item => {
+                  const Icon = item.format === 'csv' ? Sheet : FileText;
+                  const busy = busySource === item.source;
+                  const open = preview?.source === item.source;
+                  return (
+                    <Fragment key={item.source}>
+                      <tr className="border-b border-slate-50 last:border-0 hover:bg-slate-50/50">
+                        <td className="px-5 py-3">
+                          <div className="flex items-center gap-2.5 min-w-0">
+                            <Icon className="w-4 h-4 text-slate-400 shrink-0" />
+                            <span className="font-medium text-slate-800 truncate">{item.source}</span>
+                          </div>
+                        </td>
+                        <td className="px-5 py-3">
+                          <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${
+                            item.origin === 'upload' ? 'bg-blue-50 text-blue-700'
+                              : item.origin === 'notebook' ? 'bg-amber-50 text-amber-700'
+                              : 'bg-slate-100 text-slate-600'
+                          }`}>
+                            {ORIGIN_LABELS[item.origin]}
+                          </span>
+                        </td>
+                        <td className="px-5 py-3 text-right tabular-nums text-slate-700">{item.chunkCount}</td>
+                        <td className="px-5 py-3 text-slate-500 whitespace-nowrap">{formatDate(item.indexedAt)}</td>
+                        <td className="px-5 py-3">
+                          <div className="flex justify-end gap-1">
+                            <button onClick={() => togglePreview(item.source)} disabled={busy} title={open ? 'Hide chunks' : 'Preview chunks'} className="p-1.5 text-slate-400 hover:text-slate-700 rounded transition-colors disabled:opacity-50">
+                              {open ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </button>
+                            <button
+                              onClick={() => handleReindex(item.source)}
+                              disabled={busy || item.origin === 'notebook'}
+                              title={item.origin === 'notebook' ? 'Indexed by the notebook; upload the file or add it to the manifest to re-index' : 'Re-index'}
+                              className="p-1.5 text-slate-400 hover:text-blue-600 rounded transition-colors disabled:opacity-50"
+                            >
+                              <RefreshCw className={`w-4 h-4 ${busy ? 'animate-spin' : ''}`} />
+                            </button>
+                            <button onClick={() => handleDelete(item.source)} disabled={busy} title="Delete" className="p-1.5 text-slate-400 hover:text-red-600 rounded transition-colors disabled:opacity-50">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {open && (
+                        <tr className="bg-slate-50/60">
+                          <td colSpan={5} className="px-5 py-4">
+                            <p className="text-[11px] font-semibold text-slate-400 uppercase tracking-wider mb-3">
+                              {preview.total > preview.chunks.length ? `First ${preview.chunks.length} of ${preview.total} chunks` : `${preview.total} chunks`}
+                            </p>
+                            <ol className="space-y-2 max-h-96 overflow-y-auto pr-2">
+                              {preview.chunks.map(chunk => (
+                                <li key={chunk.id} className="p-3 bg-white rounded-xl border border-slate-100 text-xs text-slate-700 leading-relaxed">
+                                  <span className="block text-[10px] font-semibold text-slate-400 mb-1">
+                                    #{(chunk.chunk ?? 0) + 1}{chunk.page ? ` · page ${chunk.page}` : ''}
+                                  </span>
+                                  <span className="whitespace-pre-wrap">{chunk.text}</span>
+                                </li>
+                              ))}
+                            </ol>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/app/lib/session';
+import { hasRole } from '@/app/lib/roles';
+import { getKnowledgeSourceStore } from '@/app/lib/knowledgeSources';
+import { getVectorStore } from '@/app/lib/vectorStore';
+import { reindexDocument, removeDocument } from '@/app/lib/ingestion';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+type Params = { params: { source: string } };
+
+const MAX_PREVIEW_CHUNKS = 200;
+
+// GET /api/admin/knowledge/:source -> the source and its chunks, in order
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!hasRole(session.role, 'admin')) return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+
+    const source = await getKnowledgeSourceStore().get(params.source);
+    if (!source) return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+
+    const stored = await getVectorStore().listBySource(params.source);
+    const chunks = stored.slice(0, MAX_PREVIEW_CHUNKS).map(({ id, metadata: { text, chunk, page } }) => ({ id, text, chunk, page }));
+    return NextResponse.json({ source, chunks, totalChunks: stored.length });
+  } catch (error: any) {
+    console.error("Knowledge API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// POST /api/admin/knowledge/:source -> re-index from the stored original
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!hasRole(session.role, 'admin')) return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+
+    if (!await getKnowledgeSourceStore().get(params.source)) return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+
+    const record = await reindexDocument(params.source);
+    console.log(`[Knowledge] ${session.username} re-indexed ${record.source}: ${record.chunkCount} chunks`);
+    return NextResponse.json({ source: record });
+  } catch (error: any) {
+    console.error("Knowledge API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/knowledge/:source -> removes its chunks, file and registry entry
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!hasRole(session.role, 'admin')) return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+
+    if (!await getKnowledgeSourceStore().get(params.source)) return NextResponse.json({ error: 'Source not found' }, { status: 404 });
+
+    await removeDocument(params.source);
+    console.log(`[Knowledge] ${session.username} deleted ${params.source}`);
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    console.error("Knowledge API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
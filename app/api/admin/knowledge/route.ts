@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import path from 'path';
+import { getRequestSession } from '@/app/lib/session';
+import { hasRole } from '@/app/lib/roles';
+import { getKnowledgeSourceStore, KNOWLEDGE_AGENTS, KnowledgeAgent } from '@/app/lib/knowledgeSources';
+import { indexDocument, formatFromFilename, registerUntrackedSourcesOnce } from '@/app/lib/ingestion';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+const UPLOAD_FORMATS = ['pdf', 'csv'];
+
+// GET /api/admin/knowledge?agent=energy -> indexed sources (all agents without ?agent)
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!hasRole(session.role, 'admin')) return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+
+    const agent = req.nextUrl.searchParams.get('agent') as KnowledgeAgent | null;
+    if (agent && !KNOWLEDGE_AGENTS.includes(agent)) return NextResponse.json({ error: 'Unknown agent' }, { status: 400 });
+
+    await registerUntrackedSourcesOnce().catch(e => console.error("Knowledge Backfill Error:", e));
+    const sources = await getKnowledgeSourceStore().list(agent || undefined);
+    return NextResponse.json({ sources });
+  } catch (error: any) {
+    console.error("Knowledge API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// POST /api/admin/knowledge (multipart: file, agent) -> the indexed source
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!hasRole(session.role, 'admin')) return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+
+    const form = await req.formData();
+    const file = form.get('file');
+    const agent = String(form.get('agent') || '') as KnowledgeAgent;
+
+    if (!(file instanceof File)) return NextResponse.json({ error: 'File required' }, { status: 400 });
+    if (!KNOWLEDGE_AGENTS.includes(agent)) return NextResponse.json({ error: 'Unknown agent' }, { status: 400 });
+    if (file.size > MAX_UPLOAD_BYTES) return NextResponse.json({ error: 'File is larger than 20 MB' }, { status: 413 });
+
+    // The file name becomes the source name shown in citations
+    const source = path.basename(file.name).replace(/[^\w.\- ()]+/g, '_');
+    const format = formatFromFilename(source);
+    if (!format || !UPLOAD_FORMATS.includes(format)) return NextResponse.json({ error: 'Only PDF and CSV files can be uploaded' }, { status: 400 });
+
+    // Notebook sources have no stored original; uploading the file replaces their chunks
+    const existing = await getKnowledgeSourceStore().get(source);
+    if (existing && existing.origin !== 'notebook') {
+      return NextResponse.json({ error: `"${source}" is already indexed for the ${existing.agent} agent. Delete it first to replace it.` }, { status: 409 });
+    }
+
+    const record = await indexDocument({
+      source,
+      agent,
+      format,
+      origin: 'upload',
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+    console.log(`[Knowledge] ${session.username} uploaded ${source} (${agent}): ${record.chunkCount} chunks`);
+    return NextResponse.json({ source: record }, { status: 201 });
+  } catch (error: any) {
+    console.error("Knowledge API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
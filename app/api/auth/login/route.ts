@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/app/lib/users';
+import { createSessionToken, sessionCookieOptions, SESSION_COOKIE } from '@/app/lib/session';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST /api/auth/login { username, password } -> sets the session cookie
+export async function POST(req: NextRequest) {
+  try {
+    const { username, password } = await req.json();
+    if (!username || !password) {
+      return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+    }
+
+    const user = await authenticate(username, password);
+    if (!user) return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+
+    const token = await createSessionToken({
+      sub: user.id,
+      username: user.username,
+      displayName: user.displayName,
+      role: user.role,
+      customerId: user.customerId || null,
+    });
+    const res = NextResponse.json({ user: { username: user.username, displayName: user.displayName, role: user.role } });
+    res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions);
+    return res;
+  } catch (error: any) {
+    console.error("Login API Error:", error);
+    return NextResponse.json({ error: 'Sign-in is unavailable right now' }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { sessionCookieOptions, SESSION_COOKIE } from '@/app/lib/session';
+
+// POST /api/auth/logout -> clears the session cookie
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(SESSION_COOKIE, '', { ...sessionCookieOptions, maxAge: 0 });
+  return res;
+}
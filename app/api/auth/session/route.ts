@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/app/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/auth/session -> the signed-in user (for display only; access is enforced server-side)
+export async function GET(req: NextRequest) {
+  const session = await getRequestSession(req);
+  if (!session) return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  return NextResponse.json({ user: { username: session.username, displayName: session.displayName, role: session.role } });
+}
@@ -1,230 +1,280 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Pinecone } from '@pinecone-database/pinecone';
-import { createClient } from '@supabase/supabase-js';
-import Groq from 'groq-sdk';
+import { complete, stream as streamLLM, LLMStage, LLMMessage } from '@/app/lib/llm';
+import { EmbeddingError } from '@/app/lib/embeddings';
+import { retrievePassages } from '@/app/lib/retrieval';
+import { KNOWLEDGE_AGENTS, KnowledgeAgent } from '@/app/lib/knowledgeSources';
+import { RESIDENT_TABLES, CUSTOMER_OWNER_COLUMNS, SqlGuardOptions } from '@/app/lib/sqlGuard';
+import { prepareAnalytics, runAnalyticsSql, SqlRun } from '@/app/lib/analyticsSql';
+import { describeRows, parseChartChoices, suggestChartType } from '@/app/lib/chartSpec';
+import { visualizationKind, buildVisualization, VisualizationKind } from '@/app/lib/visualization';
+import { describeAdjustments } from '@/app/lib/sqlRepair';
+import { planSubQueries } from '@/app/lib/analyticsPlan';
+import { getRequestSession, SessionPayload } from '@/app/lib/session';
+import { isStaff } from '@/app/lib/roles';
+import { classifyIntent, HYBRID_CONFIDENCE_THRESHOLD } from '@/app/lib/intent';
+import { extractTicketIds, lookupTickets, introduceTicketLookups } from '@/app/lib/tickets';
+import { createChatStream, CHAT_STREAM_CONTENT_TYPE, ChatResult, ChatSource, EmitEvent } from '@/app/lib/chatStream';
+import { citedSources } from '@/app/lib/citations';
+import { runAgent } from '@/app/lib/agent';
+import { createAgentTools } from '@/app/lib/agentTools';
+import { getConversationStore } from '@/app/lib/conversationStore';
+import { buildConversationContext, sanitizeHistory, ChatTurn, CompleteFn, ConversationContext } from '@/app/lib/conversation';
+import {
+  parseIntakeState, isActiveIntake, isServiceRequestIntent, isCancellation, isSubmission,
+  extractServiceRequest, missingFields, describeIntake, createServiceRequest, serviceRequestSchema,
+  ServiceRequestState
+} from '@/app/lib/serviceRequests';
 
 // --- CONFIGURATION ---
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60; 
 
-// --- ENVIRONMENT VARIABLES ---
-const SUPABASE_URL = process.env.SUPABASE_URL!;
-const SUPABASE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!; 
-const PINECONE_API_KEY = process.env.PINECONE_API_KEY!;
-const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'rancho-cordova';
-const GROQ_API_KEY = process.env.GROQ_API_KEY!;
-const HUGGINGFACE_API_KEY = process.env.HUGGINGFACE_API_KEY!;
-
 // --- CONSTANTS ---
+const KNOWLEDGE_BASE_UNAVAILABLE = "I'm having trouble accessing my knowledge base right now. Please try again in a moment.";
 const NO_ANSWER_FALLBACK = "I am sorry, I have access to only publicly available City of Rancho Cordova and SMUD data, and I won't be able to answer any questions outside my scope.";
+// 'agent' (default): tool-calling agent; 'router': one handler picked up front
+const USE_AGENT = process.env.CHAT_ORCHESTRATOR !== 'router';
+
+// --- ACCESS ---
+// Staff query the whole database; residents only their own rows (when their
+// account is linked to a customer_id). null = no SQL access at all.
+const sqlAccessFor = (session: SessionPayload): SqlGuardOptions | null => {
+  if (isStaff(session.role)) return {};
+  if (!session.customerId) return null;
+  return {
+    allowedTables: RESIDENT_TABLES,
+    rowScope: { value: session.customerId, ownerColumns: CUSTOMER_OWNER_COLUMNS }
+  };
+};
 
-// 1. SQL INTENT
-const SQL_INTENT_PATTERN = /\b(count|how many|total|average|avg|sum|trend|stats|statistics|plot|graph|chart|visualize|compare|highest|lowest|usage|kwh|consumption|breakdown|reasons)\b/i;
-
-// 2. VECTOR OVERRIDE
-const VECTOR_OVERRIDE_PATTERN = /\b(rebate|incentive|program|dishwasher|washing|dryer|appliance|how to|ways to|reduce|save|contact|manager|location|address|phone|email|process|steps|apply|permit)\b/i;
-
-const TICKET_ID_PATTERN = /\bCL0*\d+\b/i;
-
-// --- INITIALIZE CLIENTS ---
-const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
-const groq = new Groq({ apiKey: GROQ_API_KEY });
+// --- HELPER 1: Degrade on Embedding Failure ---
+// The knowledge base can't be searched without a query vector; answer with a
+// notice instead of failing the whole stream. Other errors propagate.
+const knowledgeBaseUnavailable = (error: unknown): ChatResult => {
+  if (!(error instanceof EmbeddingError)) throw error;
+  console.error(`Embedding Error (${error.provider}, ${error.code}):`, error.message);
+  return { response: KNOWLEDGE_BASE_UNAVAILABLE };
+};
 
-// --- HELPER 1: Generate Embedding ---
-async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await fetch(
-      'https://router.huggingface.co/hf-inference/models/sentence-transformers/all-MiniLM-L6-v2/pipeline/feature-extraction',
-      {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${HUGGINGFACE_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ inputs: [text], options: { wait_for_model: true } }),
-      }
-    );
-    if (!response.ok) return [];
-    const result = await response.json();
-    return Array.isArray(result) && Array.isArray(result[0]) ? result[0] : result;
-  } catch (e) {
-    console.error("Embedding Error:", e);
-    return [];
+// --- HELPER 2: Stream Completion ---
+// Forwards tokens as they arrive and stops forwarding once `stopAt` matches
+// (e.g. the start of a JSON block that should not be shown). Returns the full text.
+async function streamCompletion(
+  stage: LLMStage,
+  messages: LLMMessage[],
+  emit: EmitEvent,
+  stopAt?: RegExp
+): Promise<string> {
+  let fullText = '';
+  let forwarding = true;
+
+  for await (const text of streamLLM(stage, messages)) {
+    const previousLength = fullText.length;
+    fullText += text;
+    if (!forwarding) continue;
+
+    const cut = stopAt ? fullText.search(stopAt) : -1;
+    if (cut === -1) {
+      emit({ type: 'token', text });
+    } else {
+      forwarding = false;
+      if (cut > previousLength) emit({ type: 'token', text: fullText.slice(previousLength, cut) });
+    }
   }
+
+  return fullText;
 }
 
-// --- HELPER 2: Extract Chart JSON ---
-const extractChartJson = (text: string): any | null => {
-  const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return null;
-  try {
-    const candidate = jsonMatch[1] || jsonMatch[0];
-    const parsed = JSON.parse(candidate);
-    if (parsed.type === 'chart') return parsed;
-  } catch (e) { return null; }
-  return null;
-};
+// --- HELPER 3: Complete Text (non-streaming) ---
+// Used for routing work: history summaries, question rewriting, intent classification.
+const completeText: CompleteFn = (messages, options = {}) => complete('routing', messages, options);
 
 // --- HANDLER A: ANALYTICS (SQL) ---
-async function handleAnalyticsQuery(message: string, agentType: string) {
-  const currentDate = new Date().toISOString().split('T')[0];
-
-  // 1. Generate SQL
-  const sqlSystemPrompt = `
-    You are a PostgreSQL Expert.
-    Current Date: ${currentDate} (Data is mostly 2024-2025)
-    
-    Table Schema:
-    - tickets (call_id, customer_id, created_at, category, agent, resolution)
-    - energy_usage (customer_id, account_type, month_date, consumption_kwh)
-      * account_type: 'Residential', 'Commercial' (Case Sensitive!)
-      * month_date: YYYY-MM-DD
-    - meter_readings (account_id, reading_time, kwh)
-    
-    Goal: Write a SQL query for the user's question.
-    Rules:
-    - FOR TRENDS: Use GROUP BY date_trunc('day', created_at) OR month_date.
-    - FOR PIE CHARTS: Use GROUP BY category (tickets) or account_type (energy).
-    - FOR AVERAGES: Use AVG(consumption_kwh).
-    - DO NOT use a semicolon (;) at the end.
-    - Return ONLY the SQL string. No markdown.
-  `;
+async function handleAnalyticsQuery(
+  message: string,
+  agentType: KnowledgeAgent,
+  emit: EmitEvent,
+  conversation: ConversationContext,
+  access: SqlGuardOptions
+): Promise<ChatResult> {
+  // 1. Schema this agent (and user) may query, the guard's allow-list and the SQL prompt
+  const analytics = await prepareAnalytics(agentType, access, conversation);
+  if (!analytics) {
+    return { response: "There is no city data I can run reports on for this question here." };
+  }
 
-  const sqlCompletion = await groq.chat.completions.create({
-    model: 'llama-3.3-70b-versatile',
-    messages: [
-      { role: 'system', content: sqlSystemPrompt },
-      { role: 'user', content: message }
-    ],
-    temperature: 0 
+  // 2. Compound questions become one query per report, run side by side
+  const questions = await planSubQueries(message, analytics.schemaText, completeText);
+  if (questions.length > 1) console.log(`[Plan] ${questions.length} sub-queries:`, questions);
+  // A part that fails is reported next to the others; only all of them failing is an error
+  const settled = await Promise.allSettled(questions.map(q => runAnalyticsSql(q, analytics)));
+  if (settled.every(s => s.status === 'rejected')) throw (settled[0] as PromiseRejectedResult).reason;
+  const runs: SqlRun[] = settled.map((s, i) => {
+    if (s.status === 'fulfilled') return s.value;
+    console.error("Sub-query Error:", s.reason);
+    return { question: questions[i], attempts: [], rows: [], query: null, error: s.reason?.message || String(s.reason) };
   });
-
-  let query = sqlCompletion.choices[0]?.message?.content || "";
-  query = query.replace(/```sql|```/gi, '').trim().replace(/;+\s*$/, ''); 
-
-  if (!query) throw new Error("Failed to generate SQL");
-  console.log("Executing SQL:", query);
-
-  // 2. Run SQL
-  const { data, error } = await supabase.rpc('execute_sql', { query_text: query });
-
-  if (error) {
-    console.error("Supabase Error:", error);
-    return { response: "I encountered a technical error connecting to the database.", chartData: null };
-  }
-  
-  if (data && !Array.isArray(data) && (data as any).error) {
-    console.error("SQL Logic Error:", (data as any).error);
-    return { 
-      response: `I couldn't process that query. Database says: ${(data as any).error}`, 
-      chartData: null 
+  const attempts = runs.flatMap(r => r.attempts);
+
+  const rejected = runs.find(r => r.rejection);
+  if (rejected) {
+    return {
+      response: "I can only run read-only reports on the city's analytics tables, so I didn't run that query.",
+      rejection: rejected.rejection,
+      sqlAttempts: attempts
     };
   }
+  if (runs.some(r => r.connectionError)) {
+    return { response: "I encountered a technical error connecting to the database.", sqlAttempts: attempts };
+  }
 
-  if (!data || (Array.isArray(data) && data.length === 0)) {
-    return { response: "I checked the database but found no records matching your criteria.", chartData: null };
+  // Nothing to show: report the first part's failure
+  const answered = runs.filter(r => r.rows.length > 0);
+  if (answered.length === 0) {
+    const queries = runs.map(r => r.query).filter(Boolean);
+    queries.forEach(query => emit({ type: 'query', query }));
+    const ran = runs.filter(r => r.attempts.length > 0);
+    const lastAttempt = ran[0].attempts[ran[0].attempts.length - 1];
+
+    if (lastAttempt.outcome === 'db_error') {
+      return {
+        response: `I couldn't process that query. Database says: ${lastAttempt.detail}`,
+        sqlAttempts: attempts
+      };
+    }
+    return {
+      response: attempts.length > ran.length
+        ? "I checked the database but found no records matching your criteria, even after adjusting the query."
+        : "I checked the database but found no records matching your criteria.",
+      queries,
+      sqlAttempts: attempts
+    };
   }
+  answered.forEach(r => emit({ type: 'query', query: r.query }));
+
+  // 3. Summarize & Visualize
+  // Each result's shape picks a chart, a table or a KPI card; the model writes the
+  // text and the labels, and the visualizations themselves are built from the rows
+  const kinds = answered.map(r => visualizationKind(r.rows));
+  const visualizationRules: Record<VisualizationKind, { shown: string; text: string; block: string }> = {
+    chart: {
+      shown: 'a chart',
+      text: 'Provide a concise narrative summary (1-2 sentences) focused on the main insight (e.g., "Billing was the top category..."). Do NOT list all data points textually.',
+      block: '"chart": "line" | "area" | "bar" | "stackedBar" | "horizontalBar" | "combo" | "scatter" | "pie" | "doughnut" | "none", ',
+    },
+    table: {
+      shown: 'a sortable table of every row',
+      text: 'Summarize what the rows show in 1-2 sentences (e.g. how many there are and what stands out). Do NOT repeat the rows textually.',
+      block: '',
+    },
+    kpi: {
+      shown: 'a headline figure card (with the change against the previous period when there is one)',
+      text: 'Give the figure as a natural, direct answer (e.g. "The total energy consumption was 120,760 kWh."), plus the change if shown. Keep it short.',
+      block: '"unit": "kWh" | "%" | "$" | ... (omit if none), ',
+    },
+  };
+  const chartTypeRules = `
+    "chart" styles:
+    - "line" for trends over time; "area" for volumes over time.
+    - "bar" to compare categories (several measures become grouped bars); "stackedBar" when the measures add up to a total;
+      "horizontalBar" for many categories or long names.
+    - "combo" for two measures on different scales (e.g. count and average), drawn as bars plus a line on a second axis.
+    - "scatter" for the relationship between two numeric columns.
+    - "pie"/"doughnut" for shares of a whole (a single measure, few categories).
+    - "none" only if a chart would mislead; the rows are then shown as a table.`;
+
+  const compound = runs.length > 1;
+  const resultsBlock = runs.map((r, i) => {
+    const heading = compound ? `Result ${i + 1} ("${r.question}")` : 'Query Result';
+    const index = answered.indexOf(r);
+    if (r.error) return `${heading}: could not be answered (no query could be written for it).`;
+    if (index === -1) return `${heading}: no records found${r.attempts.some(a => a.outcome === 'db_error') ? ' (the query failed)' : ''}.`;
+    return `${heading}, shown as ${visualizationRules[kinds[index]].shown}:\n${describeRows(r.rows)}`;
+  }).join('\n\n').replace(/\n/g, '\n    ');
+  const entry = (kind: VisualizationKind) => `{ ${visualizationRules[kind].block}"title": "Specific Title", "explanation": "Brief insight (max 10 words)." }`;
 
-  // 3. Summarize & Chart
-  // REFINED PROMPT: NATURAL EXPLANATION vs GRAPH
   const chartPrompt = `
     You are a Data Analyst.
     User Question: "${message}"
-    Data: ${JSON.stringify(data).slice(0, 4000)}
+    ${compound ? `The question was answered with ${runs.length} queries.\n    ` : ''}
+    ${resultsBlock}
 
     Task:
-    1. Analyze the data.
-    2. Decide if a chart is necessary (Trends/Lists = YES, Single Stats = NO).
+    1. Analyze the data. Use only the numbers shown above; never estimate or invent values.
+    2. Each result is shown to the user as described, next to your text${compound ? ', in the order above' : ''}.
     3. Generate the response text.
     
-    CRITICAL RESPONSE RULES:
-    1. **IF CHART IS GENERATED:**
-       - Provide a concise narrative summary (1-2 sentences).
-       - Focus on the main insight (e.g., "Billing was the top category...").
-       - Do NOT list all data points textually.
-    
-    2. **IF NO CHART (Single Number/Stat):**
-       - Provide a **natural, direct explanation**.
-       - Example: "The total energy consumption was 120,760 kWh."
-       - You MAY add brief context if useful, but keep it short.
-       - **FORBIDDEN:** Do NOT say "No chart is needed," "I am not generating a chart," or explain *why*. Just give the answer.
-       - **FORBIDDEN:** Do NOT say "Here is the breakdown" if you are just giving a number.
+    RESPONSE RULES:
+    ${Array.from(new Set(kinds)).map(kind => `- For ${visualizationRules[kind].shown}: ${visualizationRules[kind].text}`).join('\n    ')}
+    ${compound ? '- Write ONE combined narrative (2-4 sentences) that connects or compares the results; mention any result without records or that could not be answered.\n    ' : ''}- Do NOT describe the charts, tables or cards themselves (e.g. "Here is a table"); refer to the data.
 
     OUTPUT FORMAT:
     - Text response first.
-    - JSON block last (only if chart is needed).
-    - No "JSON Chart:" headers.
-    
-    JSON Format (Only if needed):
+    - Then this JSON block last (visualizations are built from the query results; do not include data):
     \`\`\`json
-    {
-      "type": "chart",
-      "chartType": "line" | "bar" | "pie" | "doughnut",
-      "title": "Specific Title",
-      "explanation": "Brief insight (max 10 words).",
-      "data": { 
-        "labels": ["Label1", "Label2"], 
-        "datasets": [{ "label": "Metric", "data": [10, 20] }] 
-      }
-    }
-    \`\`\`
+    ${answered.length > 1
+      ? `[\n      ${kinds.map(entry).join(',\n      ')}\n    ]`
+      : entry(kinds[0])}
+    \`\`\`${kinds.includes('chart') ? chartTypeRules : ''}
   `;
 
-  const summaryCompletion = await groq.chat.completions.create({
-    model: 'llama-3.3-70b-versatile',
-    messages: [{ role: 'system', content: chartPrompt }]
-  });
+  const responseText = await streamCompletion('chart', [{ role: 'system', content: chartPrompt }], emit, /```/);
 
-  const responseText = summaryCompletion.choices[0]?.message?.content || "";
-  const chartData = extractChartJson(responseText);
+  // Without a usable choice, a chart falls back to the style the columns suggest
+  const choices = parseChartChoices(responseText, answered.length);
+  // One visualization per query, in the same order, so a re-run can replace both
+  const visualizations = answered.map((r, i) => buildVisualization(r.rows, kinds[i], choices[i]
+    || { chart: kinds[i] === 'chart' ? suggestChartType(r.rows) : 'none', title: '', explanation: '' }));
+  visualizations.forEach(visualization => emit({ type: 'chart', visualization }));
   
   // Clean text
   let cleanText = responseText
-    .replace(/```json[\s\S]*```/g, '') // Remove JSON block
-    .replace(/\{[\s\S]*\}/g, '') // Remove raw JSON objects
+    .replace(/```[\s\S]*$/, '') // Remove the choice block
     .replace(/(Here is|I have generated|This is) (a|the) (JSON)?\s*(chart|graph|visualization|response).*?:?/i, '')
     .replace(/[*#]*\s*JSON Chart\s*[*#]*:?/i, '')
     .replace(/[*#]*\s*Data Insight\s*[*#]*:?/i, '')
     .trim();
   
-  if (!cleanText && chartData) cleanText = "I have visualized the data for you above.";
+  if (!cleanText) cleanText = "I have visualized the data for you above.";
 
-  return { response: cleanText, chartData, sources: [{ source: "Live Database", score: 1 }] };
-}
-
-// --- HANDLER B: SEMANTIC (Vector) ---
-async function handleSemanticQuery(message: string, agentType: string) {
-  
-  // 1. QUERY EXPANSION
-  let searchTerms = message;
-  if (agentType === 'energy') {
-    searchTerms += " SMUD Time-of-Day rates peak off-peak electricity cost rebates incentive";
-  } else if (agentType === 'customer') {
-    searchTerms += " city department contact phone location service request process";
+  // Say what had to change for the queries to work
+  const adjustment = describeAdjustments(attempts);
+  if (adjustment) {
+    emit({ type: 'token', text: `\n\n_${adjustment}_` });
+    cleanText += `\n\n_${adjustment}_`;
   }
 
-  // 2. Generate Embedding
-  const vector = await generateEmbedding(searchTerms);
-  if (!vector.length) return { response: "I'm having trouble accessing my knowledge base.", chartData: null };
-
-  // 3. Pinecone Search
-  const pc = new Pinecone({ apiKey: PINECONE_API_KEY });
-  const index = pc.index(PINECONE_INDEX_NAME);
-  
-  const searchRes = await index.query({
-    vector,
-    topK: 15,
-    includeMetadata: true,
-    filter: { agent: agentType } 
-  });
-
-  const matches = searchRes.matches || [];
-  if (matches.length === 0) return { response: NO_ANSWER_FALLBACK, chartData: null };
-
-  const context = matches.map(m => m.metadata?.text).join('\n---\n');
+  return {
+    response: cleanText,
+    visualizations,
+    sources: answered.map(r => ({ source: "Live Database", score: 1, sql: r.query.sql })),
+    queries: answered.map(r => r.query),
+    sqlAttempts: attempts
+  };
+}
 
-  // 4. Generate Answer
+// --- HANDLER B: SEMANTIC (Vector) ---
+// `message` is the standalone question; `conversation` carries the raw turns for the answer prompt.
+async function handleSemanticQuery(message: string, agentType: KnowledgeAgent, emit: EmitEvent, conversation: ConversationContext): Promise<ChatResult> {
+
+  // 1. Hybrid Retrieval: vector + BM25, fused and reranked (throws EmbeddingError if both fail)
+  const matches = await retrievePassages(message, agentType);
+  if (matches.length === 0) return { response: NO_ANSWER_FALLBACK };
+
+  // 2. Numbered passages; the answer cites them as [n]
+  const passages: ChatSource[] = matches.map((m, i) => ({
+    ref: i + 1,
+    source: String(m.metadata.source || "Doc"),
+    score: m.scores.fused,
+    text: String(m.metadata.text || ''),
+    ...(typeof m.metadata.page === 'number' && { page: m.metadata.page }),
+    retrieval: m.scores,
+  }));
+  const context = passages.map(p => `[${p.ref}] (${p.source}${p.page ? `, page ${p.page}` : ''})\n${p.text}`).join('\n---\n');
+  emit({ type: 'sources', sources: passages });
+
+  // 3. Generate Answer
   const systemPrompt = `
     You are the ${agentType === 'energy' ? 'Energy Advisor' : 'City Services Agent'}.
     
@@ -238,45 +288,362 @@ async function handleSemanticQuery(message: string, agentType: string) {
     1. **Inference Permitted:** If the user asks about "best times" for appliances, use "Time-of-Day" rate data. 
        - "Off-Peak" (Low Rate) = Best Time.
     2. **Missing Info:** If context is missing, say: "${NO_ANSWER_FALLBACK}"
+    3. **Citations:** The context passages are numbered. After each sentence that uses a passage, cite it
+       with its number in square brackets, e.g. "Off-peak hours start at 8 p.m. [2]" or "[1, 4]".
+       Only cite passages you actually used. Do not add a list of references at the end.
+    ${conversation.summary ? `\n    Earlier in this conversation: ${conversation.summary}` : ''}
   `;
 
-  const completion = await groq.chat.completions.create({
-    model: 'llama-3.3-70b-versatile',
+  const answer = await streamCompletion('answer', [
+    { role: 'system', content: systemPrompt },
+    ...conversation.recentTurns,
+    { role: 'user', content: message }
+  ], emit);
+
+  return { 
+    response: answer || NO_ANSWER_FALLBACK,
+    sources: citedSources(answer, passages)
+  };
+}
+
+// --- HANDLER C: HYBRID (both paths, merged) ---
+// Used when the intent classifier isn't confident: both handlers run without
+// streaming, then one streamed completion merges their answers.
+async function handleHybridQuery(
+  message: string,
+  agentType: KnowledgeAgent,
+  emit: EmitEvent,
+  conversation: ConversationContext,
+  access: SqlGuardOptions
+): Promise<ChatResult> {
+  const silent: EmitEvent = () => {};
+  const [analytics, semantic] = await Promise.allSettled([
+    handleAnalyticsQuery(message, agentType, silent, conversation, access),
+    handleSemanticQuery(message, agentType, silent, conversation)
+  ]);
+
+  const dbResult = analytics.status === 'fulfilled' ? analytics.value : null;
+  const docResult = semantic.status === 'fulfilled' ? semantic.value : null;
+  if (!dbResult || !docResult) {
+    const fallback = dbResult || docResult;
+    if (!fallback) throw (analytics as PromiseRejectedResult).reason;
+    return fallback;
+  }
+
+  const sources = [...(docResult.sources || []), ...(dbResult.sources || [])];
+  emit({ type: 'sources', sources });
+
+  const mergePrompt = `
+    You are the ${agentType === 'energy' ? 'Energy Advisor' : 'City Services Agent'}.
+    Two assistants answered the same question from different sources.
+
+    FROM THE CITY DATABASE:
+    ${dbResult.response}
+
+    FROM PUBLISHED DOCUMENTS:
+    ${docResult.response}
+
+    Write one answer to the user's question combining both.
+    - Ignore a source that says it could not find or process anything.
+    - Keep numbers exactly as given. Do not invent data.
+    - Keep citation markers such as [2] from the documents answer next to the facts they support.
+    - If neither source answers it, say: "${NO_ANSWER_FALLBACK}"
+  `;
+
+  const answer = await streamCompletion('answer', [
+    { role: 'system', content: mergePrompt },
+    { role: 'user', content: message }
+  ], emit);
+
+  dbResult.visualizations?.forEach(visualization => emit({ type: 'chart', visualization }));
+
+  return {
+    response: answer || docResult.response,
+    visualizations: dbResult.visualizations,
+    sources,
+    rejection: dbResult.rejection,
+    queries: dbResult.queries,
+    sqlAttempts: dbResult.sqlAttempts
+  };
+}
+
+// --- HANDLER D: TICKET LOOKUP ---
+// Deterministic: no LLM involved. Residents only see their own tickets.
+async function handleTicketLookup(ticketIds: string[], session: SessionPayload, emit: EmitEvent): Promise<ChatResult> {
+  const staff = isStaff(session.role);
+  const tickets = await lookupTickets(ticketIds, {
+    customerId: staff ? undefined : session.customerId || null,
+    userId: session.sub,
+    includeAgent: staff
+  });
+
+  emit({ type: 'tickets', tickets });
+
+  return {
+    response: introduceTicketLookups(tickets),   // the cards carry the details
+    tickets,
+    sources: [{ source: "Live Database", score: 1 }]
+  };
+}
+
+// --- HANDLER E: AGENT (tool calling) ---
+// The model picks tools (database reports, document search, ticket lookup,
+// cost arithmetic) and combines their results in one answer. Used unless
+// CHAT_ORCHESTRATOR=router.
+async function handleAgentQuery(
+  message: string,
+  agentType: KnowledgeAgent,
+  emit: EmitEvent,
+  conversation: ConversationContext,
+  session: SessionPayload,
+  access: SqlGuardOptions | null
+): Promise<ChatResult> {
+  const staff = isStaff(session.role);
+  const analytics = access ? await prepareAnalytics(agentType, access, conversation) : null;
+  const { tools, artifacts } = createAgentTools({
+    agentType,
+    analytics,
+    ticketScope: { customerId: staff ? undefined : session.customerId || null, userId: session.sub, includeAgent: staff },
+    emit
+  });
+
+  const systemPrompt = `
+    You are the ${agentType === 'energy' ? 'Energy Advisor' : 'City Services Agent'} for the City of Rancho Cordova.
+    Current Date: ${new Date().toISOString().split('T')[0]}
+
+    Answer the user's question using the tools:
+    - ${analytics
+      ? 'query_database for facts from the city\'s own records (counts, totals, averages, trends). One report per call; call it again for a separate report.'
+      : 'You cannot query the city database for this user; say so if the question needs it.'}
+    - search_documents for published information: rate plans, typical usage, rebates, programs, permits, contacts.
+    - Use both when the question compares records with published figures (e.g. "my average usage vs what SMUD says is typical").
+    - calculate_energy_cost for any bill or cost arithmetic.
+    - lookup_tickets for ticket IDs such as CL0092.
+
+    Answer rules:
+    - Use only facts from tool results. Keep numbers exactly as returned; never estimate or invent data.
+    - Cite document passages with their numbers in square brackets, e.g. "Off-peak hours start at 8 p.m. [2]".
+    - Charts and tables of database results are shown next to your answer; do not repeat every row.
+    - If the tools don't answer it, say: "${NO_ANSWER_FALLBACK}"
+    ${conversation.summary ? `\n    Earlier in this conversation: ${conversation.summary}` : ''}
+  `;
+
+  const { answer, trace, exhausted } = await runAgent({
     messages: [
       { role: 'system', content: systemPrompt },
-      { role: 'user', content: message } 
-    ]
+      ...conversation.recentTurns,
+      { role: 'user', content: message }
+    ],
+    tools,
+    onStep: (step) => {
+      console.log(`[Agent] Step ${step.step}: ${step.tool} ${step.ok ? 'ok' : 'failed'} (${step.durationMs} ms)`);
+      emit({ type: 'step', step });
+    },
+    // Everything gathered so far, so citation markers link while the answer streams
+    streamAnswer: (messages) => {
+      const gathered = [
+        ...artifacts.passages,
+        ...artifacts.queries.map(q => ({ source: "Live Database", score: 1, sql: q.sql }))
+      ];
+      if (gathered.length) emit({ type: 'sources', sources: gathered });
+      return streamCompletion('answer', messages, emit);
+    }
   });
-
-  return { 
-    response: completion.choices[0]?.message?.content || NO_ANSWER_FALLBACK,
-    chartData: null,
-    sources: matches.slice(0, 3).map(m => ({ source: m.metadata?.source || "Doc", score: m.score }))
+  console.log(`[Agent] ${trace.length} tool call(s)${exhausted ? ', step budget exhausted' : ''}`);
+
+  const response = answer || NO_ANSWER_FALLBACK;
+  if (!answer) emit({ type: 'token', text: response });
+  // The done event narrows the sources to the passages the answer cites
+  const sources = [
+    ...citedSources(response, artifacts.passages),
+    ...artifacts.queries.map(q => ({ source: "Live Database", score: 1, sql: q.sql }))
+  ];
+  artifacts.visualizations.forEach(visualization => emit({ type: 'chart', visualization }));
+  if (artifacts.tickets.length) emit({ type: 'tickets', tickets: artifacts.tickets });
+
+  return {
+    response,
+    visualizations: artifacts.visualizations,
+    sources,
+    rejection: artifacts.rejection,
+    tickets: artifacts.tickets.length ? artifacts.tickets : undefined,
+    queries: artifacts.queries,
+    sqlAttempts: artifacts.sqlAttempts,
+    trace
   };
 }
 
-// --- MAIN ROUTER ---
+// --- HANDLER F: SERVICE REQUEST INTAKE ---
+// "Report a pothole": collects the request over several turns, asks for
+// missing fields, then files a ticket once the resident confirms. `previous`
+// is the intake state the client sent back with the message.
+async function handleServiceRequest(
+  message: string,
+  previous: ServiceRequestState | null,
+  history: ChatTurn[],
+  session: SessionPayload,
+  emit: EmitEvent
+): Promise<ChatResult> {
+  let state: ServiceRequestState;
+
+  if (previous && isCancellation(message)) {
+    state = { ...previous, status: 'cancelled' };
+  } else if (previous?.status === 'confirm' && isSubmission(message)) {
+    const request = serviceRequestSchema.safeParse(previous.draft);
+    if (!request.success) {
+      state = { ...previous, status: 'collecting' };
+    } else {
+      try {
+        const ticketId = await createServiceRequest(request.data, { userId: session.sub, customerId: session.customerId });
+        console.log(`[Intake] Filed ${ticketId} for "${session.username}"`);
+        state = { ...previous, status: 'submitted', ticketId };
+      } catch (e) {
+        console.error("Service Request Error:", e);
+        const response = "I couldn't file your report right now. Please try submitting it again in a moment.";
+        emit({ type: 'serviceRequest', serviceRequest: previous });
+        emit({ type: 'token', text: response });
+        return { response, serviceRequest: previous };
+      }
+    }
+  } else {
+    // Only the intake's own turns, plus what is known so far (for corrections)
+    const transcript = [
+      ...(previous ? [`Known so far: ${JSON.stringify(previous.draft)}`] : []),
+      ...(previous ? history.slice(-2) : []).map(t => `${t.role === 'user' ? 'Resident' : 'Assistant'}: ${t.content}`),
+      `Resident: ${message}`
+    ].join('\n');
+    const base = previous?.draft || { contactName: session.displayName || undefined };
+    const draft = await extractServiceRequest(transcript, base, completeText);
+    const missing = missingFields(draft);
+    state = { status: missing.length ? 'collecting' : 'confirm', draft, missing };
+  }
+
+  const response = describeIntake(state);
+  emit({ type: 'serviceRequest', serviceRequest: state });
+  emit({ type: 'token', text: response });
+  return { response, serviceRequest: state };
+}
+
+// --- ROUTER ---
+// Picks one handler up front: ticket lookup, SQL, documents or both (hybrid).
+// Used with CHAT_ORCHESTRATOR=router, and when the agent fails.
+async function routeQuestion(
+  question: string,
+  agentType: KnowledgeAgent,
+  emit: EmitEvent,
+  conversation: ConversationContext,
+  session: SessionPayload,
+  sqlAccess: SqlGuardOptions | null
+): Promise<ChatResult> {
+  const ticketIds = extractTicketIds(question);
+  if (ticketIds.length) {
+    console.log(`[Router] Ticket Lookup for: ${ticketIds.join(', ')}`);
+    emit({ type: 'route', route: 'ticket' });
+    return handleTicketLookup(ticketIds, session, emit);
+  }
+
+  const intent = await classifyIntent(question, agentType, completeText);
+  console.log(`[Router] Intent ${intent.route} (${intent.confidence.toFixed(2)}, ${intent.source}) for: "${question}"`);
+
+  const isHybrid = intent.source !== 'ticket' && intent.confidence < HYBRID_CONFIDENCE_THRESHOLD;
+  const wantsSql = intent.route === 'sql' || isHybrid;
+  if (wantsSql && !sqlAccess) console.log(`[Router] SQL access denied for ${session.role} "${session.username}"`);
+
+  if (isHybrid && sqlAccess) {
+    console.log(`[Router] Hybrid Path for: "${question}"`);
+    emit({ type: 'route', route: 'hybrid' });
+    return handleHybridQuery(question, agentType, emit, conversation, sqlAccess);
+  }
+  if (wantsSql && sqlAccess) {
+    console.log(`[Router] SQL Path for: "${question}"`);
+    emit({ type: 'route', route: 'sql' });
+    return handleAnalyticsQuery(question, agentType, emit, conversation, sqlAccess);
+  }
+  console.log(`[Router] Vector Path for: "${question}"`);
+  emit({ type: 'route', route: 'vector' });
+  return handleSemanticQuery(question, agentType, emit, conversation).catch(knowledgeBaseUnavailable);
+}
+
+// --- MAIN ---
+// Responds with an NDJSON event stream (see app/lib/chatStream.ts).
 export async function POST(req: NextRequest) {
   try {
-    const { message, agentType = 'customer' } = await req.json();
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
 
-    if (!message) return NextResponse.json({ error: 'Message required' }, { status: 400 });
+    const { message, agentType = 'customer', history, conversationId, serviceRequest } = await req.json();
 
-    const isTicketLookup = TICKET_ID_PATTERN.test(message);
-    const isAnalytics = SQL_INTENT_PATTERN.test(message);
-    const isVectorOverride = VECTOR_OVERRIDE_PATTERN.test(message);
+    if (!message) return NextResponse.json({ error: 'Message required' }, { status: 400 });
+    if (!KNOWLEDGE_AGENTS.includes(agentType)) return NextResponse.json({ error: 'Unknown agent' }, { status: 400 });
+
+    const sqlAccess = sqlAccessFor(session);
+
+    const saveExchange = async (result: ChatResult) => {
+      if (!conversationId) return;
+      await getConversationStore().appendMessages(conversationId, session.sub, [
+        { role: 'user', content: message },
+        {
+          role: 'assistant',
+          content: result.response,
+          visualizations: result.visualizations,
+          sources: result.sources,
+          rejection: result.rejection,
+          tickets: result.tickets,
+          queries: result.queries,
+          serviceRequest: result.serviceRequest
+        }
+      ]).catch(e => console.error("Conversation Save Error:", e));
+    };
 
-    let result;
-    
-    if (isTicketLookup || (isAnalytics && !isVectorOverride)) {
-      console.log(`[Router] SQL Path for: "${message}"`);
-      result = await handleAnalyticsQuery(message, agentType);
-    } else {
-      console.log(`[Router] Vector Path for: "${message}"`);
-      result = await handleSemanticQuery(message, agentType);
-    }
+    const intake = parseIntakeState(serviceRequest);
+
+    const stream = createChatStream(async (emit) => {
+      // An open report keeps the conversation until it is filed or cancelled
+      if (isActiveIntake(intake) || isServiceRequestIntent(message)) {
+        console.log(`[Router] Service Request Intake (${intake ? intake.status : 'new'})`);
+        emit({ type: 'route', route: 'intake' });
+        const result = await handleServiceRequest(message, intake, sanitizeHistory(history), session, emit);
+        emit({ type: 'done', result });
+        await saveExchange(result);
+        return;
+      }
 
-    return NextResponse.json(result);
+      // Follow-ups ("what about commercial accounts?") are routed on their standalone form
+      const conversation = await buildConversationContext(message, sanitizeHistory(history), completeText);
+      const question = conversation.standalone;
+      if (question !== message) console.log(`[Router] Rewrote "${message}" -> "${question}"`);
+
+      let result: ChatResult | null = null;
+      if (USE_AGENT) {
+        console.log(`[Agent] Answering: "${question}"`);
+        emit({ type: 'route', route: 'agent' });
+        let agentEmitted = false;
+        const agentEmit: EmitEvent = (event) => {
+          agentEmitted = true;
+          emit(event);
+        };
+        result = await handleAgentQuery(question, agentType, agentEmit, conversation, session, sqlAccess)
+          .catch(e => {
+            // Steps, tokens or charts already sent: answering again would mix two answers
+            if (agentEmitted) throw e;
+            // e.g. a model without function calling; the router needs none
+            console.error("Agent Error, using the router:", e);
+            return null;
+          });
+      }
+      if (!result) result = await routeQuestion(question, agentType, emit, conversation, session, sqlAccess);
+
+      emit({ type: 'done', result });
+      await saveExchange(result);
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CHAT_STREAM_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Accel-Buffering': 'no',
+      },
+    });
 
   } catch (error: any) {
     console.error("API Error:", error);
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/app/lib/session';
+import { isStaff } from '@/app/lib/roles';
+import { validateSql } from '@/app/lib/sqlGuard';
+import { getAnalyticsSchema, schemaAllowList } from '@/app/lib/analyticsSchema';
+import { executeReadonlySql, queryDetails } from '@/app/lib/analyticsQuery';
+import { chartChoiceSchema, suggestChartType } from '@/app/lib/chartSpec';
+import { buildVisualization, visualizationKind } from '@/app/lib/visualization';
+import { KNOWLEDGE_AGENTS, KnowledgeAgent } from '@/app/lib/knowledgeSources';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// POST /api/chat/sql { sql, agentType, chart? } -> { query, visualization }
+// Re-runs edited SQL from the "show your work" panel through the same guard
+// and allow-list as the chat. `chart` keeps the answer's chart style and
+// title; the visualization kind follows the new result's shape.
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    if (!isStaff(session.role)) return NextResponse.json({ error: 'Staff access required' }, { status: 403 });
+
+    const { sql, agentType = 'customer', chart } = await req.json();
+    if (typeof sql !== 'string' || !sql.trim()) return NextResponse.json({ error: 'SQL required' }, { status: 400 });
+    if (!KNOWLEDGE_AGENTS.includes(agentType)) return NextResponse.json({ error: 'Unknown agent' }, { status: 400 });
+
+    const schema = await getAnalyticsSchema(agentType as KnowledgeAgent);
+    const guard = validateSql(sql, { allowedTables: schemaAllowList(schema) });
+    if (guard.ok === false) {
+      console.warn(`[SQL Guard] Rejected re-run by ${session.username} (${guard.rejection.reason}):`, sql);
+      return NextResponse.json({ error: guard.rejection.message, rejection: guard.rejection }, { status: 400 });
+    }
+
+    console.log(`[SQL] Re-run by ${session.username}:`, guard.sql);
+    const run = await executeReadonlySql(guard.sql);
+    if (run.ok === false) {
+      return run.connectionError
+        ? NextResponse.json({ error: 'Could not reach the database.' }, { status: 502 })
+        : NextResponse.json({ error: `Database says: ${run.error}` }, { status: 400 });
+    }
+
+    const kind = visualizationKind(run.rows);
+    const requested = chartChoiceSchema.safeParse(chart || {});
+    const choice = requested.success ? requested.data : chartChoiceSchema.parse({});
+    // The answer had no chart (or a different style won't fit), so pick one for the new rows
+    if (kind === 'chart' && choice.chart === 'none') choice.chart = suggestChartType(run.rows);
+
+    return NextResponse.json({
+      query: queryDetails(guard.sql, run.rows, run.durationMs),
+      visualization: buildVisualization(run.rows, kind, choice)
+    });
+  } catch (error: any) {
+    console.error("SQL Re-run Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
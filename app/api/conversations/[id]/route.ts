@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore, titleFromMessage } from '@/app/lib/conversationStore';
+import { getRequestSession } from '@/app/lib/session';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type Params = { params: { id: string } };
+
+// GET /api/conversations/:id -> conversation with its messages
+export async function GET(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const conversation = await getConversationStore().get(params.id, session.sub);
+    if (!conversation) return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    return NextResponse.json({ conversation });
+  } catch (error: any) {
+    console.error("Conversations API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// PATCH /api/conversations/:id { title } -> renamed conversation
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const { title } = await req.json();
+    if (!title || !String(title).trim()) return NextResponse.json({ error: 'Title required' }, { status: 400 });
+
+    const conversation = await getConversationStore().rename(params.id, session.sub, titleFromMessage(String(title)));
+    if (!conversation) return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    return NextResponse.json({ conversation });
+  } catch (error: any) {
+    console.error("Conversations API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// DELETE /api/conversations/:id
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const deleted = await getConversationStore().remove(params.id, session.sub);
+    if (!deleted) return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (error: any) {
+    console.error("Conversations API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
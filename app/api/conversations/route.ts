@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversationStore, titleFromMessage } from '@/app/lib/conversationStore';
+import { getRequestSession } from '@/app/lib/session';
+
+// --- CONFIGURATION ---
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/conversations -> the user's conversation summaries, most recently updated first
+export async function GET(req: NextRequest) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const conversations = await getConversationStore().list(session.sub);
+    return NextResponse.json({ conversations });
+  } catch (error: any) {
+    console.error("Conversations API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+// POST /api/conversations { title?, agentType? } -> new (empty) conversation
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getRequestSession(req);
+    if (!session) return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+
+    const { title = '', agentType = 'customer' } = await req.json();
+    const conversation = await getConversationStore().create({
+      title: titleFromMessage(String(title)),
+      agentType,
+      ownerId: session.sub
+    });
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error: any) {
+    console.error("Conversations API Error:", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
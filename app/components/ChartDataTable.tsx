@@ -0,0 +1,83 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import type { ChartData } from './ChartDisplay';
+import { chartTable } from '../lib/chartExport';
+
+interface ChartDataTableProps {
+  chartData: ChartData;
+}
+
+type Sort = { column: number; direction: 'ascending' | 'descending' } | null;
+
+const compare = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+// The chart's data as a table; column headers sort (original order -> ascending -> descending)
+export default function ChartDataTable({ chartData }: ChartDataTableProps) {
+  const [sort, setSort] = useState<Sort>(null);
+  const { headers, rows } = useMemo(() => chartTable(chartData), [chartData]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const sign = sort.direction === 'ascending' ? 1 : -1;
+    return [...rows].sort((a, b) => sign * compare(a[sort.column], b[sort.column]));
+  }, [rows, sort]);
+
+  const toggleSort = (column: number) => {
+    if (sort?.column !== column) return setSort({ column, direction: 'ascending' });
+    setSort(sort.direction === 'ascending' ? { column, direction: 'descending' } : null);
+  };
+
+  return (
+    <div className="max-h-72 overflow-auto rounded-lg border border-slate-100">
+      <table className="w-full text-xs text-slate-700">
+        <caption className="sr-only">
+          {chartData.title}. Select a column header to sort.
+        </caption>
+        <thead className="sticky top-0 bg-slate-50">
+          <tr>
+            {headers.map((header, i) => {
+              const active = sort?.column === i;
+              const Icon = !active ? ArrowUpDown : sort.direction === 'ascending' ? ArrowUp : ArrowDown;
+              return (
+                <th
+                  key={header + i}
+                  scope="col"
+                  aria-sort={active ? sort.direction : 'none'}
+                  className={`px-3 py-2 font-semibold text-slate-600 ${i === 0 ? 'text-left' : 'text-right'}`}
+                >
+                  <button
+                    onClick={() => toggleSort(i)}
+                    className={`inline-flex items-center gap-1 hover:text-slate-900 ${i === 0 ? '' : 'flex-row-reverse'}`}
+                  >
+                    {header}
+                    <Icon className={`w-3 h-3 ${active ? 'opacity-100' : 'opacity-40'}`} aria-hidden="true" />
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row, r) => (
+            <tr key={r} className="border-t border-slate-100 even:bg-slate-50/50">
+              {row.map((cell, i) =>
+                i === 0 ? (
+                  <th key={i} scope="row" className="px-3 py-1.5 text-left font-medium">{cell}</th>
+                ) : (
+                  <td key={i} className="px-3 py-1.5 text-right tabular-nums">
+                    {typeof cell === 'number' ? cell.toLocaleString() : cell}
+                  </td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
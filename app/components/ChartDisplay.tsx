@@ -4,41 +4,58 @@ import {
   Chart as ChartJS,
   CategoryScale,
   LinearScale,
+  TimeScale,
   PointElement,
   LineElement,
   BarElement,
   ArcElement,
+  LineController,
+  BarController,
   Title,
   Tooltip,
   Legend,
   Filler,
 } from 'chart.js';
-import { Line, Bar, Pie, Doughnut } from 'react-chartjs-2';
+import 'chartjs-adapter-date-fns';
+import { Line, Bar, Pie, Doughnut, Scatter } from 'react-chartjs-2';
 import { useRef, useEffect, useState } from 'react';
+import { BarChart3, Check, Copy, Download, Table2 } from 'lucide-react';
+import ChartDataTable from './ChartDataTable';
+import { downloadBlob, exportFileName, toCsv, toMarkdown, toSvg, toXlsx } from '../lib/chartExport';
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
+  TimeScale,
   PointElement,
   LineElement,
   BarElement,
   ArcElement,
+  LineController, // line datasets inside a combo (bar) chart
+  BarController,
   Title,
   Tooltip,
   Legend,
   Filler
 );
 
+// bar = grouped bars; combo = bars plus lines on a secondary axis
+export type ChartType =
+  | 'line' | 'area' | 'bar' | 'stackedBar' | 'horizontalBar' | 'combo' | 'scatter' | 'pie' | 'doughnut';
+
 export interface ChartData {
   type: 'chart';
-  chartType: 'line' | 'bar' | 'pie' | 'doughnut';
+  chartType: ChartType;
   title: string;
   explanation: string;
+  xScale?: 'category' | 'time';      // time: labels are dates, spaced by date
   data: {
-    labels: string[];
+    labels: string[];                 // x values; numbers as text for scatter
     datasets: {
       label: string;
       data: number[];
+      type?: 'bar' | 'line';          // per-dataset type in combo charts
+      yAxisID?: 'y' | 'y1';           // y1 = secondary (right) axis
       borderColor?: string;
       backgroundColor?: string | string[];
     }[];
@@ -90,24 +107,61 @@ const PALETTES = [
 ];
 
 // Helper: Pick a palette deterministically based on title text
-const getPalette = (title: string) => {
+const getPaletteIndex = (title: string) => {
   let hash = 0;
   for (let i = 0; i < title.length; i++) {
     hash = title.charCodeAt(i) + ((hash << 5) - hash);
   }
-  const index = Math.abs(hash) % PALETTES.length;
-  return PALETTES[index];
+  return Math.abs(hash) % PALETTES.length;
 };
 
+// Each dataset gets its own palette, starting from the title's
+const datasetPalette = (base: number, i: number) => PALETTES[(base + i) % PALETTES.length];
+
+// --- 2. SLICE COLORS ---
+// Ten distinct hues (the palettes first), then golden-angle hues so no two slices match
+const CATEGORICAL = [...PALETTES.map(p => p.border), '#14b8a6', '#eab308', '#6366f1', '#ef4444', '#64748b'];
+
+const sliceColors = (base: number, count: number) =>
+  Array.from({ length: count }, (_, i) =>
+    i < CATEGORICAL.length
+      ? CATEGORICAL[(base + i) % CATEGORICAL.length]
+      : `hsl(${Math.round((i * 137.5) % 360)}, 65%, 55%)`
+  );
+
+const RADIAL_TYPES: ChartType[] = ['pie', 'doughnut'];
+
+// Scatter points are {x, y}; every other type reads data against labels
+const toChartJsData = (chartData: ChartData) =>
+  chartData.chartType !== 'scatter'
+    ? chartData.data
+    : {
+        datasets: chartData.data.datasets.map(ds => ({
+          ...ds,
+          data: ds.data.map((y, i) => ({ x: Number(chartData.data.labels[i]), y })),
+        })),
+      };
+
+const EXPORT_FORMATS = ['png', 'svg', 'csv', 'xlsx'] as const;
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
 export default function ChartDisplay({ chartData }: { chartData: ChartData }) {
   const chartRef = useRef<any>(null);
   const [gradientData, setGradientData] = useState<any>(null);
+  const [view, setView] = useState<'chart' | 'table'>('chart');
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
 
   // 1. Select Theme
-  const theme = getPalette(chartData.title);
+  const paletteIndex = getPaletteIndex(chartData.title);
+  const theme = PALETTES[paletteIndex];
+  const { chartType } = chartData;
 
   // 2. Determine Size based on Type
-  const isTrend = chartData.chartType === 'line' || chartData.chartType === 'bar';
+  const isTrend = !RADIAL_TYPES.includes(chartType);
+  const isHorizontal = chartType === 'horizontalBar';
+  const isStacked = chartType === 'stackedBar';
+  const hasSecondaryAxis = chartData.data.datasets.some(ds => ds.yAxisID === 'y1');
   
   const containerClasses = isTrend 
     ? "min-w-[300px] sm:min-w-[550px] max-w-2xl" // Wide for Time Series
@@ -122,34 +176,89 @@ export default function ChartDisplay({ chartData }: { chartData: ChartData }) {
     const chart = chartRef.current;
     if (!chart) return;
 
-    const newDatasets = chartData.data.datasets.map((ds) => {
+    const base = toChartJsData(chartData);
+    const single = base.datasets.length === 1;
+
+    const newDatasets = base.datasets.map((ds, i) => {
+      // Pie/doughnut: one color per slice
+      if (!isTrend) {
+        return { ...ds, backgroundColor: sliceColors(paletteIndex, ds.data.length), borderColor: '#ffffff', borderWidth: 2 };
+      }
+
+      const palette = datasetPalette(paletteIndex, i);
       const ctx = chart.ctx;
       const gradient = ctx.createLinearGradient(0, 0, 0, 300);
-      gradient.addColorStop(0, theme.start);
-      gradient.addColorStop(1, theme.end);
+      gradient.addColorStop(0, palette.start);
+      gradient.addColorStop(1, palette.end);
+      const solid = palette.start.replace('0.5', '0.75');
+
+      const drawnAsLine = chartType === 'line' || chartType === 'area' || ds.type === 'line';
+      const fill = chartType === 'area' || (chartType === 'line' && single);
 
       return {
         ...ds,
-        borderColor: theme.border,
-        backgroundColor: isTrend ? gradient : ds.backgroundColor, 
+        borderColor: palette.border,
+        backgroundColor: drawnAsLine
+          ? (fill ? gradient : palette.border)
+          : (single && !isHorizontal ? gradient : solid),
         borderWidth: 2,
-        fill: true,
-        // For Pie charts, we generate an array of colors derived from the theme
-        ...( !isTrend && {
-             backgroundColor: [
-               theme.border,                    // Strong
-               theme.start.replace('0.5', '0.8'), // Medium
-               theme.start.replace('0.5', '0.4'), // Light
-               '#cbd5e1'                        // Grey for "Other"
-             ],
-             borderColor: '#ffffff',
-             borderWidth: 2
-        })
+        fill,
+        // Lines are drawn over the bars in a combo chart
+        ...(ds.type === 'line' && { order: 0 }),
+        ...(chartType === 'scatter' && { backgroundColor: solid, pointRadius: 4, pointHoverRadius: 6 })
       };
     });
 
-    setGradientData({ ...chartData.data, datasets: newDatasets });
-  }, [chartData, theme, isTrend]);
+    setGradientData({ ...base, datasets: newDatasets });
+  }, [chartData, chartType, paletteIndex, isTrend, isHorizontal, view]);
+
+  // --- EXPORT ---
+  const exportAs = async (format: ExportFormat) => {
+    setMenuOpen(false);
+    const fileName = exportFileName(chartData, format);
+    try {
+      switch (format) {
+        case 'png': {
+          // Copy onto white; the chart canvas itself is transparent
+          const source: HTMLCanvasElement | undefined = chartRef.current?.canvas;
+          if (!source) return;
+          const canvas = document.createElement('canvas');
+          canvas.width = source.width;
+          canvas.height = source.height;
+          const ctx = canvas.getContext('2d')!;
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          ctx.drawImage(source, 0, 0);
+          canvas.toBlob(blob => blob && downloadBlob(blob, fileName), 'image/png');
+          return;
+        }
+        case 'svg':
+          downloadBlob(new Blob([toSvg(chartData, {
+            series: chartData.data.datasets.map((_, i) => datasetPalette(paletteIndex, i).border),
+            slices: sliceColors(paletteIndex, chartData.data.labels.length)
+          })], { type: 'image/svg+xml' }), fileName);
+          return;
+        case 'csv':
+          downloadBlob(new Blob([toCsv(chartData)], { type: 'text/csv;charset=utf-8' }), fileName);
+          return;
+        case 'xlsx':
+          downloadBlob(await toXlsx(chartData), fileName);
+          return;
+      }
+    } catch (e) {
+      console.error("Chart Export Error:", e);
+    }
+  };
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(toMarkdown(chartData));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      console.error("Clipboard Error:", e);
+    }
+  };
 
   // --- OPTIONS ---
   const options = {
@@ -186,18 +295,34 @@ export default function ChartDisplay({ chartData }: { chartData: ChartData }) {
         shadowColor: 'rgba(0,0,0,0.1)',
       },
     },
+    indexAxis: isHorizontal ? 'y' : 'x',
     scales: isTrend ? {
-      y: {
+      // Value axis (y, or x for horizontal bars)
+      [isHorizontal ? 'x' : 'y']: {
         beginAtZero: true,
+        stacked: isStacked,
         grid: { color: '#f1f5f9', drawBorder: false },
         ticks: { font: { size: 10 }, color: '#94a3b8', padding: 8 },
         border: { display: false },
       },
-      x: {
-        grid: { display: false },
+      // Category, time or (scatter) numeric axis
+      [isHorizontal ? 'y' : 'x']: {
+        ...(chartData.xScale === 'time' && { type: 'time', time: { tooltipFormat: 'PP' } }),
+        ...(chartType === 'scatter' && { type: 'linear' }),
+        stacked: isStacked,
+        grid: { display: chartType === 'scatter', color: '#f1f5f9' },
         ticks: { font: { size: 10 }, color: '#64748b' },
         border: { display: false },
       },
+      ...(hasSecondaryAxis && {
+        y1: {
+          position: 'right',
+          beginAtZero: true,
+          grid: { drawOnChartArea: false },
+          ticks: { font: { size: 10 }, color: '#94a3b8', padding: 8 },
+          border: { display: false },
+        }
+      }),
     } : {
       x: { display: false },
       y: { display: false }
@@ -211,10 +336,15 @@ export default function ChartDisplay({ chartData }: { chartData: ChartData }) {
   };
 
   const renderChart = () => {
-    const data = gradientData || chartData.data;
-    switch (chartData.chartType) {
-      case 'line': return <Line ref={chartRef} options={options as any} data={data} />;
-      case 'bar': return <Bar ref={chartRef} options={options as any} data={data} />;
+    const data = gradientData || toChartJsData(chartData);
+    switch (chartType) {
+      case 'line':
+      case 'area': return <Line ref={chartRef} options={options as any} data={data} />;
+      case 'bar':
+      case 'stackedBar':
+      case 'horizontalBar':
+      case 'combo': return <Bar ref={chartRef} options={options as any} data={data as any} />;
+      case 'scatter': return <Scatter ref={chartRef} options={options as any} data={data as any} />;
       case 'pie': return <Pie ref={chartRef} options={options as any} data={data} />;
       // FIX: Added 'as any' to the options object here to fix the TypeScript error
       case 'doughnut': return <Doughnut ref={chartRef} options={{...options, cutout: '70%'} as any} data={data} />;
@@ -226,20 +356,74 @@ export default function ChartDisplay({ chartData }: { chartData: ChartData }) {
     <div className={`flex flex-col bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden mt-4 mb-2 transition-all hover:shadow-xl ${containerClasses}`}>
       
       {/* Title Header */}
-      <div className="px-5 pt-5 pb-1 flex justify-between items-center">
+      <div className="px-5 pt-5 pb-1 flex justify-between items-center gap-3">
         <h3 className="text-slate-800 font-bold text-sm tracking-tight">
           {chartData.title}
         </h3>
-        {/* Tiny visual tag based on chart type */}
-        <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${theme.bubble.split(' ')[0]} ${theme.bubble.split(' ')[1]} opacity-80`}>
-          {chartData.chartType}
-        </span>
+        <div className="flex items-center gap-1 shrink-0">
+          {/* Tiny visual tag based on chart type */}
+          <span className={`mr-1 text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${theme.bubble.split(' ')[0]} ${theme.bubble.split(' ')[1]} opacity-80`}>
+            {chartType.replace(/([A-Z])/g, ' $1').toLowerCase()}
+          </span>
+
+          {/* Actions */}
+          <button
+            onClick={() => setView(view === 'chart' ? 'table' : 'chart')}
+            title={view === 'chart' ? 'View as table' : 'View as chart'}
+            aria-pressed={view === 'table'}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            {view === 'chart' ? <Table2 className="w-3.5 h-3.5" /> : <BarChart3 className="w-3.5 h-3.5" />}
+          </button>
+          <button
+            onClick={copyMarkdown}
+            title="Copy data as Markdown table"
+            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors"
+          >
+            {copied ? <Check className="w-3.5 h-3.5 text-emerald-500" /> : <Copy className="w-3.5 h-3.5" />}
+          </button>
+          <div
+            className="relative"
+            onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setMenuOpen(false); }}
+          >
+            <button
+              onClick={() => setMenuOpen(!menuOpen)}
+              title="Download"
+              aria-haspopup="menu"
+              aria-expanded={menuOpen}
+              className="p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-50 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+            </button>
+            {menuOpen && (
+              <div role="menu" className="absolute right-0 top-full mt-1 z-10 w-36 py-1 bg-white border border-slate-100 rounded-xl shadow-lg">
+                {EXPORT_FORMATS.map(format => (
+                  <button
+                    key={format}
+                    role="menuitem"
+                    onClick={() => exportAs(format)}
+                    disabled={format === 'png' && view === 'table'}
+                    className="w-full px-3 py-1.5 text-left text-xs text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-transparent"
+                  >
+                    {format === 'png' || format === 'svg' ? 'Image' : 'Data'} ({format.toUpperCase()})
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Dynamic Chart Area */}
-      <div className={`relative w-full px-4 pb-2 ${heightClass}`}>
-        {renderChart()}
-      </div>
+      {view === 'chart' ? (
+        <div className={`relative w-full px-4 pb-2 ${heightClass}`}>
+          {renderChart()}
+        </div>
+      ) : (
+        <div className="px-4 pb-3 pt-2">
+          <ChartDataTable chartData={chartData} />
+        </div>
+      )}
 
       {/* Insight Footer */}
       {chartData.explanation && (
@@ -0,0 +1,142 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from 'lucide-react';
+
+export interface TableColumn {
+  key: string;
+  label: string;
+  kind: 'number' | 'date' | 'text';
+}
+
+export interface TableData {
+  type: 'table';
+  title: string;
+  explanation?: string;
+  columns: TableColumn[];
+  rows: Record<string, string | number | null>[];
+}
+
+const PAGE_SIZE = 10;
+
+type Sort = { key: string; direction: 'ascending' | 'descending' } | null;
+
+// Empty cells sort last in either direction
+const compare = (a: string | number | null, b: string | number | null, sign: number) => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1;
+  if (typeof a === 'number' && typeof b === 'number') return sign * (a - b);
+  return sign * String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+const formatCell = (value: string | number | null) =>
+  value === null ? '—' : typeof value === 'number' ? value.toLocaleString() : value;
+
+export default function DataTable({ tableData }: { tableData: TableData }) {
+  const [sort, setSort] = useState<Sort>(null);
+  const [page, setPage] = useState(0);
+  const { columns, rows } = tableData;
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const sign = sort.direction === 'ascending' ? 1 : -1;
+    return [...rows].sort((a, b) => compare(a[sort.key], b[sort.key], sign));
+  }, [rows, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const pageRows = sortedRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const toggleSort = (key: string) => {
+    setPage(0);
+    if (sort?.key !== key) return setSort({ key, direction: 'ascending' });
+    setSort(sort.direction === 'ascending' ? { key, direction: 'descending' } : null);
+  };
+
+  return (
+    <div className="flex flex-col bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden mt-4 mb-2 min-w-[300px] sm:min-w-[550px] max-w-2xl font-sans">
+      {/* Title Header */}
+      <div className="px-5 pt-5 pb-3 flex justify-between items-center gap-3">
+        <h3 className="text-slate-800 font-bold text-sm tracking-tight">{tableData.title}</h3>
+        <span className="text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full bg-slate-50 text-slate-500">
+          {rows.length.toLocaleString()} {rows.length === 1 ? 'row' : 'rows'}
+        </span>
+      </div>
+
+      <div className="px-4 overflow-x-auto">
+        <table className="w-full text-xs text-slate-700">
+          <caption className="sr-only">{tableData.title}. Select a column header to sort.</caption>
+          <thead className="bg-slate-50">
+            <tr>
+              {columns.map(column => {
+                const active = sort?.key === column.key;
+                const Icon = !active ? ArrowUpDown : sort.direction === 'ascending' ? ArrowUp : ArrowDown;
+                const numeric = column.kind === 'number';
+                return (
+                  <th
+                    key={column.key}
+                    scope="col"
+                    aria-sort={active ? sort.direction : 'none'}
+                    className={`px-3 py-2 font-semibold text-slate-600 whitespace-nowrap ${numeric ? 'text-right' : 'text-left'}`}
+                  >
+                    <button
+                      onClick={() => toggleSort(column.key)}
+                      className={`inline-flex items-center gap-1 hover:text-slate-900 ${numeric ? 'flex-row-reverse' : ''}`}
+                    >
+                      {column.label}
+                      <Icon className={`w-3 h-3 ${active ? 'opacity-100' : 'opacity-40'}`} aria-hidden="true" />
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((row, r) => (
+              <tr key={page * PAGE_SIZE + r} className="border-t border-slate-100">
+                {columns.map(column => (
+                  <td
+                    key={column.key}
+                    className={`px-3 py-2 ${column.kind === 'number' ? 'text-right tabular-nums whitespace-nowrap' : ''} ${column.kind === 'date' ? 'whitespace-nowrap' : ''}`}
+                  >
+                    {formatCell(row[column.key])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      {pageCount > 1 && (
+        <nav aria-label="Table pages" className="px-5 py-2 flex items-center justify-end gap-2 text-xs text-slate-500">
+          <span>
+            {page * PAGE_SIZE + 1}–{Math.min(rows.length, (page + 1) * PAGE_SIZE)} of {rows.length.toLocaleString()}
+          </span>
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            aria-label="Previous page"
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount - 1}
+            aria-label="Next page"
+            className="p-1 rounded hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </nav>
+      )}
+
+      {/* Insight Footer */}
+      {tableData.explanation && (
+        <div className="px-5 py-3 border-t border-dashed border-slate-100">
+          <p className="text-xs text-slate-700 leading-relaxed font-medium">{tableData.explanation}</p>
+        </div>
+      )}
+    </div>
+  );
+}
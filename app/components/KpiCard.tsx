@@ -0,0 +1,63 @@
+'use client';
+
+import { Minus, TrendingDown, TrendingUp } from 'lucide-react';
+
+export interface KpiData {
+  type: 'kpi';
+  title: string;
+  value: number;
+  unit?: string;              // 'kWh', '%', '$' ...
+  period?: string;            // e.g. '2025-03-01'
+  previousValue?: number;
+  previousPeriod?: string;
+  delta?: number;             // value - previousValue
+  deltaPercent?: number;
+  explanation?: string;
+}
+
+// '$' goes in front; other units follow the number
+const formatValue = (value: number, unit?: string) => {
+  const number = value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2 });
+  if (!unit) return number;
+  return unit === '$' ? `$${number}` : unit === '%' ? `${number}%` : `${number} ${unit}`;
+};
+
+export default function KpiCard({ kpiData }: { kpiData: KpiData }) {
+  const { delta, deltaPercent } = kpiData;
+  const hasDelta = delta !== undefined;
+  const Trend = !hasDelta || delta === 0 ? Minus : delta > 0 ? TrendingUp : TrendingDown;
+  const trendClasses = !hasDelta || delta === 0
+    ? 'bg-slate-50 text-slate-500'
+    : delta > 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700';
+
+  return (
+    <div className="flex flex-col bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden mt-4 mb-2 min-w-[260px] max-w-sm font-sans">
+      <div className="px-5 pt-5 pb-4">
+        <p className="text-[11px] font-semibold uppercase tracking-wider text-slate-400">{kpiData.title}</p>
+        <p className="mt-1 text-3xl font-bold text-slate-800 tabular-nums">{formatValue(kpiData.value, kpiData.unit)}</p>
+        {kpiData.period && <p className="mt-0.5 text-xs text-slate-500">{kpiData.period}</p>}
+
+        {hasDelta && (
+          <div className="mt-3 flex items-center gap-2 text-xs">
+            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full font-semibold ${trendClasses}`}>
+              <Trend className="w-3.5 h-3.5" aria-hidden="true" />
+              {delta > 0 ? '+' : ''}{formatValue(delta, kpiData.unit)}
+              {deltaPercent !== undefined && ` (${deltaPercent > 0 ? '+' : ''}${deltaPercent}%)`}
+            </span>
+            <span className="text-slate-400">
+              vs {kpiData.previousPeriod || 'previous'}
+              {kpiData.previousValue !== undefined && ` (${formatValue(kpiData.previousValue, kpiData.unit)})`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Insight Footer */}
+      {kpiData.explanation && (
+        <div className="px-5 py-3 border-t border-dashed border-slate-100">
+          <p className="text-xs text-slate-700 leading-relaxed font-medium">{kpiData.explanation}</p>
+        </div>
+      )}
+    </div>
+  );
+}
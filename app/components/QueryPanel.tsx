@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Loader2, Pencil, Play } from 'lucide-react';
+import type { QueryDetails } from '../lib/analyticsQuery';
+
+interface QueryPanelProps {
+  query: QueryDetails;
+  label?: string;                                // which part of a multi-query answer
+  edited?: boolean;                              // re-run with edited SQL since the answer was written
+  onRerun?: (sql: string) => Promise<void>;      // staff only; rejects with the error to show
+}
+
+const MAX_GRID_ROWS = 100;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '∅';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// "Show your work": the SQL behind a database answer, its timing and the raw rows
+export default function QueryPanel({ query, label, edited, onRerun }: QueryPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(query.sql);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = query.rows.length ? Object.keys(query.rows[0]) : [];
+  const shownRows = query.rows.slice(0, MAX_GRID_ROWS);
+
+  const run = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      await onRerun!(draft);
+      setEditing(false);
+    } catch (err: any) {
+      setError(err.message || 'The query could not be run.');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 font-sans">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wider text-slate-400 hover:text-slate-600 transition-colors"
+      >
+        Show your work{label && `: ${label}`} · {query.rowCount.toLocaleString()} {query.rowCount === 1 ? 'row' : 'rows'} · {query.durationMs} ms
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {edited && (
+            <p className="text-[11px] text-amber-600">Showing an edited query. The answer above refers to the original one.</p>
+          )}
+
+          {/* SQL */}
+          {editing ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              spellCheck={false}
+              rows={Math.min(12, draft.split('\n').length + 2)}
+              aria-label="SQL query"
+              className="w-full p-3 bg-slate-900 text-slate-100 text-[11px] leading-relaxed font-mono rounded-lg outline-none focus:ring-2 focus:ring-blue-500/40"
+            />
+          ) : (
+            <pre className="p-3 bg-slate-900 text-slate-100 text-[11px] leading-relaxed rounded-lg overflow-x-auto whitespace-pre-wrap">
+              {query.sql}
+            </pre>
+          )}
+
+          {onRerun && (
+            <div className="flex items-center gap-2">
+              {editing ? (
+                <>
+                  <button
+                    onClick={run}
+                    disabled={running || !draft.trim()}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-blue-600 text-white text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {running ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                    Run
+                  </button>
+                  <button
+                    onClick={() => { setEditing(false); setDraft(query.sql); setError(null); }}
+                    disabled={running}
+                    className="px-3 py-1.5 rounded-lg text-xs text-slate-500 hover:bg-slate-100"
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => { setDraft(query.sql); setEditing(true); }}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-200 text-xs text-slate-600 hover:bg-slate-50"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                  Edit &amp; re-run
+                </button>
+              )}
+              {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+            </div>
+          )}
+
+          {/* Result Grid */}
+          {columns.length > 0 ? (
+            <div className="max-h-72 overflow-auto rounded-lg border border-slate-100">
+              <table className="w-full text-xs text-slate-700">
+                <thead className="sticky top-0 bg-slate-50">
+                  <tr>
+                    {columns.map(column => (
+                      <th key={column} scope="col" className="px-3 py-2 text-left font-semibold text-slate-600 whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownRows.map((row, r) => (
+                    <tr key={r} className="border-t border-slate-100 even:bg-slate-50/50">
+                      {columns.map(column => (
+                        <td
+                          key={column}
+                          className={`px-3 py-1.5 whitespace-nowrap ${typeof row[column] === 'number' ? 'text-right tabular-nums' : ''}`}
+                        >
+                          {formatCell(row[column])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">The query returned no rows.</p>
+          )}
+          {query.rows.length > shownRows.length && (
+            <p className="text-[11px] text-slate-400">Showing the first {shownRows.length} of {query.rowCount.toLocaleString()} rows.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
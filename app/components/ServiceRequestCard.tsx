@@ -0,0 +1,90 @@
+'use client';
+
+import { ClipboardList, Tag, MapPin, FileText, UserRound, Phone, Mail, CheckCircle2 } from 'lucide-react';
+import type { ServiceRequestState } from '../lib/serviceRequests';
+
+interface ServiceRequestCardProps {
+  request: ServiceRequestState;
+  onSubmit?: () => void;     // omitted once a later message has moved the intake on
+  onCancel?: () => void;
+  disabled?: boolean;
+}
+
+export default function ServiceRequestCard({ request, onSubmit, onCancel, disabled }: ServiceRequestCardProps) {
+  const { draft } = request;
+
+  // --- SUBMITTED ---
+  if (request.status === 'submitted') {
+    return (
+      <div className="flex items-center gap-3 px-5 py-4 bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 mt-4 mb-2 min-w-[280px] max-w-md font-sans">
+        <div className="w-9 h-9 rounded-xl bg-emerald-50 flex items-center justify-center shrink-0">
+          <CheckCircle2 className="w-4 h-4 text-emerald-600" />
+        </div>
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">Report Filed</p>
+          <p className="text-sm font-bold text-slate-800 tracking-tight">{request.ticketId}</p>
+          <p className="text-xs text-slate-500">Ask &ldquo;status of ticket {request.ticketId}&rdquo; to check on it.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (request.status !== 'confirm') return null;
+
+  // --- CONFIRM ---
+  const rows = [
+    { icon: Tag, label: 'Category', value: draft.category },
+    { icon: MapPin, label: 'Location', value: draft.location },
+    { icon: FileText, label: 'Details', value: draft.description },
+    { icon: UserRound, label: 'Name', value: draft.contactName },
+    { icon: Phone, label: 'Phone', value: draft.contactPhone },
+    { icon: Mail, label: 'Email', value: draft.contactEmail },
+  ].filter(row => row.value);
+
+  return (
+    <div className="flex flex-col bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden mt-4 mb-2 min-w-[280px] sm:min-w-[380px] max-w-md font-sans">
+
+      {/* Header */}
+      <div className="px-5 pt-5 pb-3 flex items-center gap-2.5">
+        <div className="w-9 h-9 rounded-xl bg-blue-50 flex items-center justify-center">
+          <ClipboardList className="w-4 h-4 text-blue-500" />
+        </div>
+        <div>
+          <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">Service Request</p>
+          <h3 className="text-slate-800 font-bold text-sm tracking-tight">Review before submitting</h3>
+        </div>
+      </div>
+
+      {/* Details */}
+      <dl className="px-5 pb-4 space-y-2">
+        {rows.map(({ icon: Icon, label, value }) => (
+          <div key={label} className="flex items-start gap-2 text-xs">
+            <Icon className="w-3.5 h-3.5 text-slate-400 shrink-0 mt-0.5" />
+            <dt className="text-slate-500 w-16 shrink-0">{label}</dt>
+            <dd className="text-slate-700 font-medium break-words min-w-0">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Actions */}
+      {onSubmit && (
+        <div className="px-5 py-3 border-t border-dashed border-slate-100 bg-slate-50/50 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-slate-800 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onSubmit}
+            disabled={disabled}
+            className="px-3 py-1.5 text-xs font-semibold text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            Submit report
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Database, FileText, X } from 'lucide-react';
+import type { ChatSource } from '../lib/chatStream';
+
+interface SourcesPanelProps {
+  sources: ChatSource[];
+  selected: number | null;                 // index into `sources`
+  onSelect: (index: number | null) => void;
+}
+
+const isDatabase = (source: ChatSource) => source.source === 'Live Database';
+
+export default function SourcesPanel({ sources, selected, onSelect }: SourcesPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const open = expanded || selected !== null;
+  const active = selected !== null ? sources[selected] : null;
+
+  return (
+    <div className="mt-4 font-sans">
+      <button
+        onClick={() => {
+          if (open) onSelect(null);
+          setExpanded(!open);
+        }}
+        className="flex items-center gap-1.5 text-[11px] font-semibold uppercase tracking-wider text-slate-400 hover:text-slate-600 transition-colors"
+      >
+        Sources · {sources.length}
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-2">
+          {/* Source Chips */}
+          <div className="flex flex-wrap gap-1.5">
+            {sources.map((source, i) => {
+              const Icon = isDatabase(source) ? Database : FileText;
+              return (
+                <button
+                  key={`${source.ref ?? 'db'}-${i}`}
+                  onClick={() => onSelect(selected === i ? null : i)}
+                  className={`flex items-center gap-1.5 max-w-[260px] px-2.5 py-1 rounded-lg border text-xs transition-colors ${
+                    selected === i ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-slate-50 border-slate-100 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {source.ref !== undefined && <span className="font-semibold tabular-nums">[{source.ref}]</span>}
+                  <Icon className="w-3.5 h-3.5 shrink-0 opacity-60" />
+                  <span className="truncate">{source.source}</span>
+                  {source.page && <span className="shrink-0 opacity-60">p. {source.page}</span>}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Passage / Query */}
+          {active && (
+            <div className="relative p-4 bg-slate-50/70 border border-slate-100 rounded-xl">
+              <button onClick={() => onSelect(null)} title="Close" className="absolute top-2.5 right-2.5 p-1 text-slate-400 hover:text-slate-600 rounded">
+                <X className="w-3.5 h-3.5" />
+              </button>
+              <p className="text-xs font-semibold text-slate-700 pr-6">
+                {active.ref !== undefined && `[${active.ref}] `}{active.source}
+                {active.page && <span className="font-normal text-slate-500"> · page {active.page}</span>}
+              </p>
+              {isDatabase(active) ? (
+                active.sql ? (
+                  <pre className="mt-2 p-3 bg-slate-900 text-slate-100 text-[11px] leading-relaxed rounded-lg overflow-x-auto whitespace-pre-wrap">
+                    {active.sql}
+                  </pre>
+                ) : (
+                  <p className="mt-1.5 text-xs text-slate-500">Looked up directly in the city database.</p>
+                )
+              ) : (
+                <blockquote className="mt-2 pl-3 border-l-2 border-slate-200 text-xs text-slate-600 leading-relaxed whitespace-pre-wrap max-h-64 overflow-y-auto">
+                  {active.text || 'The passage text is not available for this source.'}
+                </blockquote>
+              )}
+              {active.retrieval && (
+                <p className="mt-2 text-[10px] text-slate-400 font-mono tabular-nums">
+                  fused {active.retrieval.fused.toFixed(4)}
+                  {active.retrieval.vector !== undefined && ` · vector ${active.retrieval.vector.toFixed(3)} (#${active.retrieval.vectorRank})`}
+                  {active.retrieval.keyword !== undefined && ` · bm25 ${active.retrieval.keyword.toFixed(2)} (#${active.retrieval.keywordRank})`}
+                  {active.retrieval.rerank !== undefined && ` · rerank ${active.retrieval.rerank.toFixed(2)}`}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import { Ticket, Calendar, Tag, MapPin, FileText, UserRound, SearchX } from 'lucide-react';
+import type { TicketLookup } from '../lib/tickets';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export default function TicketCard({ lookup }: { lookup: TicketLookup }) {
+  // --- NOT FOUND ---
+  if (!lookup.found || !lookup.ticket) {
+    return (
+      <div className="flex items-center gap-3 px-5 py-4 bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 mt-4 mb-2 min-w-[280px] max-w-md">
+        <div className="w-9 h-9 rounded-xl bg-slate-50 flex items-center justify-center shrink-0">
+          <SearchX className="w-4 h-4 text-slate-400" />
+        </div>
+        <div>
+          <p className="text-sm font-bold text-slate-800 tracking-tight">Ticket {lookup.id} not found</p>
+          <p className="text-xs text-slate-500">Check the ID on your confirmation and try again.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { ticket } = lookup;
+  const resolved = Boolean(ticket.resolution);
+
+  const rows = [
+    { icon: Tag, label: 'Category', value: ticket.category || 'Uncategorized' },
+    ...(ticket.location ? [{ icon: MapPin, label: 'Location', value: ticket.location }] : []),
+    ...(ticket.description ? [{ icon: FileText, label: 'Details', value: ticket.description }] : []),
+    { icon: Calendar, label: 'Opened', value: formatDate(ticket.createdAt) },
+    ...(ticket.agent !== undefined ? [{ icon: UserRound, label: 'Agent', value: ticket.agent || 'Unassigned' }] : []),
+  ];
+
+  return (
+    <div className="flex flex-col bg-white rounded-2xl border border-slate-100 shadow-lg shadow-slate-200/40 overflow-hidden mt-4 mb-2 min-w-[280px] sm:min-w-[380px] max-w-md">
+
+      {/* Header */}
+      <div className="px-5 pt-5 pb-3 flex justify-between items-center">
+        <div className="flex items-center gap-2.5">
+          <div className="w-9 h-9 rounded-xl bg-blue-50 flex items-center justify-center">
+            <Ticket className="w-4 h-4 text-blue-500" />
+          </div>
+          <div>
+            <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-400">Service Ticket</p>
+            <h3 className="text-slate-800 font-bold text-sm tracking-tight">{ticket.callId}</h3>
+          </div>
+        </div>
+        <span className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full ${
+          resolved ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'
+        }`}>
+          {resolved ? 'Resolved' : 'Open'}
+        </span>
+      </div>
+
+      {/* Details */}
+      <dl className="px-5 pb-4 space-y-2">
+        {rows.map(({ icon: Icon, label, value }) => (
+          <div key={label} className="flex items-center gap-2 text-xs">
+            <Icon className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+            <dt className="text-slate-500 w-16 shrink-0">{label}</dt>
+            <dd className="text-slate-700 font-medium truncate">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {/* Resolution Footer */}
+      <div className="px-5 py-3 border-t border-dashed border-slate-100 bg-slate-50/50">
+        <p className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 mb-0.5">Resolution</p>
+        <p className="text-xs text-slate-700 leading-relaxed font-medium">
+          {ticket.resolution || 'No resolution has been recorded yet.'}
+        </p>
+      </div>
+    </div>
+  );
+}
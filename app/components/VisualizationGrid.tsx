@@ -0,0 +1,22 @@
+'use client';
+
+import ChartDisplay from './ChartDisplay';
+import DataTable from './DataTable';
+import KpiCard from './KpiCard';
+import type { Visualization } from '../lib/visualization';
+
+// The visualizations of one answer, in order. KPI cards sit side by side;
+// charts and tables take the full row.
+export default function VisualizationGrid({ visualizations }: { visualizations: Visualization[] }) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-3">
+      {visualizations.map((visualization, i) => (
+        <div key={i} className={visualization.type === 'kpi' ? '' : 'sm:col-span-2'}>
+          {visualization.type === 'chart' && <ChartDisplay chartData={visualization} />}
+          {visualization.type === 'table' && <DataTable tableData={visualization} />}
+          {visualization.type === 'kpi' && <KpiCard kpiData={visualization} />}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+// Tool-calling agent loop for /api/chat.
+// The model sees every registered tool (name, description, zod-typed
+// arguments as JSON Schema) and decides which to call; the loop runs the
+// calls, feeds the results back and repeats until the model answers in text
+// or the step budget runs out. Every call is recorded in a trace. With
+// `streamAnswer`, the final answer is written in a separate streamed turn
+// without tools, so the chat can show it token by token.
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { JSONSchema7 } from 'json-schema';
+import { completeWithTools, LLMMessage, LLMStage, LLMToolMessage, LLMToolSpec } from './llm';
+
+// --- TYPES ---
+export interface AgentTool<Args = any> {
+  name: string;
+  description: string;
+  parameters: z.ZodType<Args>;
+  run(args: Args): Promise<string>;   // what the model sees
+}
+
+export interface AgentStep {
+  step: number;          // model round that made the call (1-based)
+  tool: string;
+  args: unknown;
+  ok: boolean;
+  output: string;        // the result (or error) as the model saw it, shortened
+  durationMs: number;
+}
+
+export interface AgentResult {
+  answer: string;
+  trace: AgentStep[];
+  exhausted: boolean;    // the step budget ran out before the model answered
+}
+
+// Model rounds per question; each round may call several tools
+export const AGENT_MAX_STEPS = Math.max(1, Number(process.env.AGENT_MAX_STEPS) || 6);
+const MAX_CALLS_PER_STEP = 4;
+const TRACE_OUTPUT_CHARS = 300;
+
+export const toolSpec = (tool: AgentTool): LLMToolSpec => {
+  // Inline schema without $schema/$ref wrappers, which some providers reject
+  const { $schema, ...parameters } = zodToJsonSchema(tool.parameters, { $refStrategy: 'none' }) as JSONSchema7;
+  return { name: tool.name, description: tool.description, parameters };
+};
+
+// Runs one call; bad arguments and tool failures go back to the model as text
+async function runToolCall(tool: AgentTool | undefined, name: string, rawArgs: string): Promise<{ ok: boolean; args: unknown; output: string }> {
+  if (!tool) return { ok: false, args: rawArgs, output: `Error: unknown tool "${name}".` };
+
+  let args: unknown;
+  try {
+    args = JSON.parse(rawArgs || '{}');
+  } catch (e) {
+    return { ok: false, args: rawArgs, output: 'Error: arguments are not valid JSON.' };
+  }
+  const parsed = tool.parameters.safeParse(args);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || 'arguments'}: ${i.message}`).join('; ');
+    return { ok: false, args, output: `Error: invalid arguments (${issues}).` };
+  }
+
+  try {
+    return { ok: true, args: parsed.data, output: await tool.run(parsed.data) };
+  } catch (e: any) {
+    console.error(`Agent Tool Error (${name}):`, e);
+    return { ok: false, args: parsed.data, output: `Error: ${e.message || 'the tool failed'}.` };
+  }
+}
+
+// The conversation with tool calls and results as plain turns, for a model call without tools
+const toPlainMessages = (conversation: LLMToolMessage[]): LLMMessage[] => conversation.map(m =>
+  m.role === 'tool' ? { role: 'user', content: `Result of ${m.name}:\n${m.content}` }
+  : 'toolCalls' in m ? {
+      role: 'assistant',
+      content: [m.content, ...m.toolCalls.map(c => `Calling ${c.name} with ${c.arguments}`)].filter(Boolean).join('\n')
+    }
+  : m
+);
+
+// --- LOOP ---
+export async function runAgent({
+  messages,
+  tools,
+  maxSteps = AGENT_MAX_STEPS,
+  stage = 'agent',
+  onStep,
+  streamAnswer,
+}: {
+  messages: LLMToolMessage[];       // system prompt, history and the question
+  tools: AgentTool[];
+  maxSteps?: number;
+  stage?: LLMStage;
+  onStep?: (step: AgentStep) => void;
+  // Writes the final answer from the gathered results (streaming it) and returns the full text
+  streamAnswer?: (messages: LLMMessage[]) => Promise<string>;
+}): Promise<AgentResult> {
+  const specs = tools.map(toolSpec);
+  const byName = new Map(tools.map(t => [t.name, t]));
+  const conversation = [...messages];
+  const trace: AgentStep[] = [];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const reply = await completeWithTools(stage, conversation, specs, { temperature: 0 });
+    if (reply.toolCalls.length === 0) {
+      const final: LLMToolMessage[] = trace.length
+        ? [...conversation, { role: 'user', content: 'Answer the question now from the tool results above.' }]
+        : conversation;
+      const answer = streamAnswer ? await streamAnswer(toPlainMessages(final)) : reply.text;
+      return { answer: answer.trim(), trace, exhausted: false };
+    }
+
+    const calls = reply.toolCalls.slice(0, MAX_CALLS_PER_STEP);
+    conversation.push({ role: 'assistant', content: reply.text, toolCalls: calls });
+
+    for (const call of calls) {
+      const started = Date.now();
+      const { ok, args, output } = await runToolCall(byName.get(call.name), call.name, call.arguments);
+      const entry: AgentStep = {
+        step,
+        tool: call.name,
+        args,
+        ok,
+        output: output.length > TRACE_OUTPUT_CHARS ? `${output.slice(0, TRACE_OUTPUT_CHARS)}...` : output,
+        durationMs: Date.now() - started,
+      };
+      trace.push(entry);
+      onStep?.(entry);
+      conversation.push({ role: 'tool', toolCallId: call.id, name: call.name, content: output });
+    }
+  }
+
+  // Out of steps: one last round without tools, answering from what was gathered
+  const closing: LLMToolMessage[] = [
+    ...conversation,
+    { role: 'user', content: 'You have used all your tool calls. Answer the question now with the information you have, and say what you could not find.' }
+  ];
+  const answer = streamAnswer
+    ? await streamAnswer(toPlainMessages(closing))
+    : (await completeWithTools(stage, closing, [], { temperature: 0 })).text;
+  return { answer: answer.trim(), trace, exhausted: true };
+}
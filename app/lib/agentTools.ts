@@ -0,0 +1,178 @@
+// Tools for the chat agent (see agent.ts): database reports, document
+// search, ticket lookup and energy cost arithmetic. Each tool returns text
+// for the model and collects what the chat window shows (passages,
+// visualizations, queries, tickets) in AgentArtifacts.
+
+import { z } from 'zod';
+import type { AgentTool } from './agent';
+import type { ChatSource, EmitEvent } from './chatStream';
+import type { KnowledgeAgent } from './knowledgeSources';
+import type { SqlRejection } from './sqlGuard';
+import type { SqlAttempt } from './sqlRepair';
+import type { QueryDetails } from './analyticsQuery';
+import type { Visualization } from './visualization';
+import { runAnalyticsSql, AnalyticsContext } from './analyticsSql';
+import { CHART_TYPES, describeRows, suggestChartType } from './chartSpec';
+import { visualizationKind, buildVisualization } from './visualization';
+import { retrievePassages } from './retrieval';
+import { lookupTickets, describeTicketLookups, extractTicketIds, TICKET_ID_PATTERN, TicketLookup, TicketScope } from './tickets';
+
+// --- TYPES ---
+export interface AgentToolContext {
+  agentType: KnowledgeAgent;
+  analytics: AnalyticsContext | null;                          // null = no database access
+  ticketScope: TicketScope;
+  emit: EmitEvent;
+}
+
+export interface AgentArtifacts {
+  passages: ChatSource[];             // numbered across searches, for [n] citations
+  visualizations: Visualization[];    // one per query with rows, same order as `queries`
+  queries: QueryDetails[];
+  sqlAttempts: SqlAttempt[];
+  tickets: TicketLookup[];
+  rejection?: SqlRejection;
+}
+
+// --- TOOL 1: Database ---
+const databaseArgs = z.object({
+  question: z.string().min(3)
+    .describe('One report in plain English, e.g. "average monthly kWh for residential accounts in 2024"'),
+  title: z.string().max(80).optional().describe('Title for the chart or table shown to the user'),
+  chart: z.enum(CHART_TYPES).optional().describe('Chart style when the result is charted; omit to pick automatically'),
+});
+
+function databaseTool(analytics: AnalyticsContext, artifacts: AgentArtifacts, emit: EmitEvent): AgentTool<z.infer<typeof databaseArgs>> {
+  return {
+    name: 'query_database',
+    description: `Runs one read-only report over the city's operational tables and returns the exact result. Tables:\n${analytics.schemaText}`,
+    parameters: databaseArgs,
+    async run({ question, title, chart }) {
+      const run = await runAnalyticsSql(question, analytics);
+      artifacts.sqlAttempts.push(...run.attempts);
+
+      if (run.rejection) {
+        artifacts.rejection = artifacts.rejection || run.rejection;
+        return `Rejected by the SQL guard: ${run.rejection.message}`;
+      }
+      if (run.connectionError) throw new Error('could not reach the database');
+      if (run.rows.length === 0) {
+        const last = run.attempts[run.attempts.length - 1];
+        return last?.outcome === 'db_error' ? `The query failed: ${last.detail}` : 'No records matched.';
+      }
+
+      const kind = visualizationKind(run.rows);
+      artifacts.queries.push(run.query);
+      artifacts.visualizations.push(buildVisualization(run.rows, kind, {
+        chart: chart || (kind === 'chart' ? suggestChartType(run.rows) : 'none'),
+        title: title || '',
+        explanation: '',
+      }));
+      emit({ type: 'query', query: run.query });
+      return `SQL: ${run.query.sql}\n${describeRows(run.rows)}`;
+    },
+  };
+}
+
+// --- TOOL 2: Documents ---
+const documentArgs = z.object({
+  query: z.string().min(2).describe('What to look for, e.g. "typical monthly usage for a residential customer"'),
+});
+
+function documentTool(agentType: KnowledgeAgent, artifacts: AgentArtifacts): AgentTool<z.infer<typeof documentArgs>> {
+  return {
+    name: 'search_documents',
+    description: 'Searches published SMUD and City of Rancho Cordova documents (rate plans, rebates, programs, permits, contacts). Returns numbered passages to cite as [n].',
+    parameters: documentArgs,
+    async run({ query }) {
+      const matches = await retrievePassages(query, agentType);
+      if (matches.length === 0) return 'No matching passages.';
+
+      // Passages already returned by an earlier search keep their number
+      const passages = matches.map(m => {
+        const text = String(m.metadata.text || '');
+        const known = artifacts.passages.find(p => p.text === text);
+        if (known) return known;
+        const passage: ChatSource = {
+          ref: artifacts.passages.length + 1,
+          source: String(m.metadata.source || "Doc"),
+          score: m.scores.fused,
+          text,
+          ...(typeof m.metadata.page === 'number' && { page: m.metadata.page }),
+          retrieval: m.scores,
+        };
+        artifacts.passages.push(passage);
+        return passage;
+      });
+      return passages.map(p => `[${p.ref}] (${p.source}${p.page ? `, page ${p.page}` : ''})\n${p.text}`).join('\n---\n');
+    },
+  };
+}
+
+// --- TOOL 3: Tickets ---
+const ticketArgs = z.object({
+  ticketIds: z.array(z.string().regex(TICKET_ID_PATTERN, 'expected an ID like CL0092')).min(1).max(5),
+});
+
+function ticketTool(scope: AgentToolContext['ticketScope'], artifacts: AgentArtifacts): AgentTool<z.infer<typeof ticketArgs>> {
+  return {
+    name: 'lookup_tickets',
+    description: 'Looks up call-center tickets by ID (e.g. CL0092): category, date opened and resolution.',
+    parameters: ticketArgs,
+    async run({ ticketIds }) {
+      const lookups = await lookupTickets(extractTicketIds(ticketIds.join(' ')), scope);
+      artifacts.tickets.push(...lookups.filter(l => !artifacts.tickets.some(t => t.id === l.id)));
+      return describeTicketLookups(lookups);
+    },
+  };
+}
+
+// --- TOOL 4: Energy Cost ---
+// Arithmetic only; the prices come from the documents (or the user)
+const costArgs = z.object({
+  usageKwh: z.number().nonnegative().describe('Energy used, in kWh'),
+  rates: z.array(z.object({
+    label: z.string().describe('e.g. "Flat", "Peak" or "Off-peak"'),
+    pricePerKwh: z.number().nonnegative().describe('Dollars per kWh, e.g. 0.1654'),
+    share: z.number().min(0).max(1).optional().describe('Fraction of the usage billed at this rate; omit for a single rate'),
+  })).min(1).max(6),
+  fixedCharge: z.number().nonnegative().optional().describe('Flat charge in dollars for the period, if any'),
+}).refine(
+  ({ rates }) => rates.length === 1 || Math.abs(rates.reduce((sum, r) => sum + (r.share ?? 0), 0) - 1) < 0.01,
+  { message: 'With several rates, every rate needs a share and the shares must add up to 1', path: ['rates'] }
+);
+
+export function calculateEnergyCost({ usageKwh, rates, fixedCharge = 0 }: z.infer<typeof costArgs>): string {
+  const money = (value: number) => `$${value.toFixed(2)}`;
+  const lines = rates.map(r => {
+    const kwh = usageKwh * (rates.length === 1 ? 1 : r.share);
+    return { text: `${r.label}: ${kwh.toFixed(1)} kWh x ${money(r.pricePerKwh)}/kWh = ${money(kwh * r.pricePerKwh)}`, cost: kwh * r.pricePerKwh };
+  });
+  const total = lines.reduce((sum, l) => sum + l.cost, 0) + fixedCharge;
+  return [
+    ...lines.map(l => l.text),
+    ...(fixedCharge ? [`Fixed charge: ${money(fixedCharge)}`] : []),
+    `Total: ${money(total)} (${usageKwh > 0 ? money(total / usageKwh) : '$0.00'}/kWh average)`,
+  ].join('\n');
+}
+
+const costTool: AgentTool<z.infer<typeof costArgs>> = {
+  name: 'calculate_energy_cost',
+  description: 'Calculates an energy bill from usage and per-kWh rates (with optional time-of-day shares and a fixed charge). Use it instead of doing the arithmetic yourself.',
+  parameters: costArgs,
+  async run(args) {
+    return calculateEnergyCost(args);
+  },
+};
+
+// --- PUBLIC API ---
+export function createAgentTools(context: AgentToolContext): { tools: AgentTool[]; artifacts: AgentArtifacts } {
+  const artifacts: AgentArtifacts = { passages: [], visualizations: [], queries: [], sqlAttempts: [], tickets: [] };
+  const tools: AgentTool[] = [
+    ...(context.analytics ? [databaseTool(context.analytics, artifacts, context.emit)] : []),
+    documentTool(context.agentType, artifacts),
+    ticketTool(context.ticketScope, artifacts),
+    costTool,
+  ];
+  return { tools, artifacts };
+}
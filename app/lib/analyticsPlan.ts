@@ -0,0 +1,63 @@
+// Splits compound analytics questions ("compare residential and commercial
+// usage and show the ticket category breakdown") into sub-questions that one
+// SQL query each can answer. Each sub-question gets its own query and its own
+// visualization. The answer lists them in order under one narrative.
+
+import { z } from 'zod';
+import type { CompleteFn } from './conversation';
+
+export const MAX_SUB_QUERIES = 3;
+
+// Only questions with a conjunction or a list are worth a planning call
+const COMPOUND_HINT = /\b(and|also|plus|as well as|along with|together with|versus|vs)\b|[,;]/i;
+
+const PLANNER_PROMPT = `
+  You plan database reports for the City of Rancho Cordova assistant.
+  Split the user's question into the separate reports it asks for, at most ${MAX_SUB_QUERIES}.
+
+  - Each report must be answerable with ONE SQL query over the tables below.
+  - Keep a comparison that one GROUP BY can answer as ONE report
+    (e.g. "compare residential and commercial usage by month" is one report).
+  - Split only when the parts need different tables, measures or groupings
+    (e.g. "usage by account type and the ticket category breakdown" is two reports).
+  - Write each report as a standalone question, keeping the user's filters and date ranges.
+
+  Tables:
+  {schema}
+
+  Respond with ONLY a JSON object: {"questions":["...", "..."]}
+`;
+
+const planSchema = z.object({
+  questions: z.array(z.string().trim().min(1)).min(1),
+});
+
+const parsePlan = (text: string): string[] | null => {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    const parsed = planSchema.safeParse(JSON.parse(match[0]));
+    return parsed.success ? parsed.data.questions.slice(0, MAX_SUB_QUERIES) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/** The sub-questions for `question`, in answer order; just [question] when it doesn't split. */
+export async function planSubQueries(question: string, schemaText: string, complete: CompleteFn): Promise<string[]> {
+  if (!COMPOUND_HINT.test(question)) return [question];
+
+  try {
+    const text = await complete([
+      { role: 'system', content: PLANNER_PROMPT.replace('{schema}', schemaText.replace(/\n/g, '\n  ')) },
+      { role: 'user', content: question }
+    ], { temperature: 0 });
+
+    const questions = parsePlan(text);
+    if (questions) return questions;
+    console.warn("[Plan] Unparseable planner output, answering as one query:", text);
+  } catch (e) {
+    console.error("Query Planner Error:", e);
+  }
+  return [question];
+}
@@ -0,0 +1,56 @@
+// Runs guarded SQL against the analytics tables, and describes the run for
+// the "show your work" panel: the executed query, row count, timing and rows.
+// Callers validate the SQL with validateSql() first.
+
+import { getAnalyticsSupabase } from './supabase';
+import { STATEMENT_TIMEOUT_MS } from './sqlGuard';
+
+const QUERY_CANCELED = '57014';   // SQLSTATE for statement_timeout
+
+export interface QueryDetails {
+  sql: string;                          // as executed, after the guard
+  rowCount: number;
+  durationMs: number;
+  rows: Record<string, unknown>[];
+}
+
+export type SqlExecution =
+  | { ok: true; rows: Record<string, unknown>[]; durationMs: number }
+  // connectionError: the database wasn't reached; otherwise Postgres refused the query
+  | { ok: false; error: string; connectionError: boolean; durationMs: number };
+
+export async function executeReadonlySql(sql: string): Promise<SqlExecution> {
+  const started = Date.now();
+  let data: unknown, error: { message: string; code?: string } | null;
+  try {
+    ({ data, error } = await getAnalyticsSupabase()
+      .rpc('execute_readonly_sql', { query_text: sql })
+      .abortSignal(AbortSignal.timeout(STATEMENT_TIMEOUT_MS + 2000)));
+  } catch (e: any) {
+    // e.g. SUPABASE_JWT_SECRET missing
+    error = { message: e?.message || String(e) };
+  }
+  const durationMs = Date.now() - started;
+
+  // Cancelled by the analytics role's statement_timeout
+  if (error?.code === QUERY_CANCELED) {
+    console.error("SQL Timeout:", error.message);
+    return { ok: false, error: `The query took longer than ${STATEMENT_TIMEOUT_MS / 1000}s and was cancelled.`, connectionError: false, durationMs };
+  }
+  if (error) {
+    console.error("Supabase Error:", error);
+    return { ok: false, error: error.message, connectionError: true, durationMs };
+  }
+  if (data && !Array.isArray(data) && (data as any).error) {
+    console.error("SQL Logic Error:", (data as any).error);
+    return { ok: false, error: String((data as any).error), connectionError: false, durationMs };
+  }
+  return { ok: true, rows: Array.isArray(data) ? data : [], durationMs };
+}
+
+export const queryDetails = (sql: string, rows: Record<string, unknown>[], durationMs: number): QueryDetails => ({
+  sql,
+  rowCount: rows.length,
+  durationMs,
+  rows,
+});
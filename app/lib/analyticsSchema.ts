@@ -0,0 +1,139 @@
+// Schema of the analytics tables, read from the database instead of typed
+// into the SQL prompt. Columns, types and the values of low-cardinality
+// columns (tickets.category, energy_usage.account_type) come from the
+// describe_analytics_schema function and are cached for SCHEMA_REFRESH_MS.
+//
+// Each agent only sees its own tables (AGENT_TABLES, overridable with
+// SQL_TABLES_<AGENT>=table,table). The same description drives the prompt
+// and the SQL guard's allow-list. Tables listed in ALLOWED_TABLES are limited
+// to those columns, which keeps personal details such as the contact columns
+// of tickets filed from chat out of the prompt.
+
+import { getSupabase } from './supabase';
+import { ALLOWED_TABLES } from './sqlGuard';
+import { KNOWLEDGE_AGENTS, KnowledgeAgent } from './knowledgeSources';
+
+export interface ColumnSchema {
+  name: string;
+  type?: string;          // Postgres data type; missing in the fallback schema
+  values?: string[];      // every distinct value, for low-cardinality text columns
+}
+
+export interface TableSchema {
+  name: string;
+  columns: ColumnSchema[];
+}
+
+// Tables each agent's analytics may read
+export const AGENT_TABLES: Record<KnowledgeAgent, string[]> = {
+  energy: ['energy_usage', 'meter_readings'],
+  customer: ['tickets'],
+};
+
+// Text columns with more distinct values than this are listed without values
+const MAX_DISTINCT_VALUES = 12;
+const REFRESH_INTERVAL_MS = Number(process.env.SCHEMA_REFRESH_MS) || 15 * 60_000;
+// After a failed introspection, try again sooner
+const RETRY_INTERVAL_MS = 60_000;
+
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+export function agentTables(agent: KnowledgeAgent): string[] {
+  const override = process.env[`SQL_TABLES_${agent.toUpperCase()}`];
+  if (!override) return AGENT_TABLES[agent] || [];
+  return override.split(',').map(t => t.trim().toLowerCase()).filter(t => TABLE_NAME_PATTERN.test(t));
+}
+
+// --- INTROSPECTION ---
+interface ColumnRow {
+  table: string;
+  column: string;
+  type: string;
+  values: string[] | null;
+}
+
+async function introspect(tables: string[]): Promise<TableSchema[]> {
+  const { data, error } = await getSupabase().rpc('describe_analytics_schema', {
+    table_names: tables,
+    max_distinct: MAX_DISTINCT_VALUES,
+    column_names: tables.flatMap(t => (ALLOWED_TABLES[t] || []).map(c => `${t}.${c}`)),
+  });
+  if (error) throw new Error(error.message);
+
+  const byTable = new Map<string, TableSchema>();
+  for (const row of (data || []) as ColumnRow[]) {
+    const table = byTable.get(row.table) || { name: row.table, columns: [] };
+    table.columns.push({ name: row.column, type: row.type, ...(row.values && { values: row.values }) });
+    byTable.set(row.table, table);
+  }
+  return tables.filter(t => byTable.has(t)).map(t => byTable.get(t)!);
+}
+
+// Used when the database can't be introspected: the guard's static allow-list, without types or values
+const fallbackSchema = (tables: string[]): TableSchema[] =>
+  tables
+    .filter(t => ALLOWED_TABLES[t])
+    .map(t => ({ name: t, columns: ALLOWED_TABLES[t].map(name => ({ name })) }));
+
+// --- CACHE ---
+let cached: { tables: string; expiresAt: number; schema: Promise<TableSchema[]> } | null = null;
+
+const allAgentTables = () => Array.from(new Set(KNOWLEDGE_AGENTS.flatMap(agentTables))).sort();
+
+function loadSchema(force = false): Promise<TableSchema[]> {
+  const tables = allAgentTables();
+  const key = tables.join(',');
+  if (!force && cached && cached.tables === key && Date.now() < cached.expiresAt) return cached.schema;
+
+  const entry = {
+    tables: key,
+    expiresAt: Date.now() + REFRESH_INTERVAL_MS,
+    schema: introspect(tables)
+      .then(schema => {
+        console.log(`[Schema] Introspected ${schema.length} tables: ${schema.map(t => t.name).join(', ')}`);
+        return schema;
+      })
+      .catch(e => {
+        console.warn("[Schema] Introspection failed, using the static allow-list:", e?.message || e);
+        entry.expiresAt = Date.now() + RETRY_INTERVAL_MS;
+        return fallbackSchema(tables);
+      }),
+  };
+  cached = entry;
+  return entry.schema;
+}
+
+// --- PUBLIC API ---
+/**
+ * Tables `agent` may query. `restrictTo` (e.g. a resident's allow-list)
+ * narrows the tables and columns further.
+ */
+export async function getAnalyticsSchema(agent: KnowledgeAgent, restrictTo?: Record<string, string[]>): Promise<TableSchema[]> {
+  const allowed = new Set(agentTables(agent));
+  const schema = (await loadSchema()).filter(t => allowed.has(t.name));
+  if (!restrictTo) return schema;
+
+  return schema
+    .filter(t => restrictTo[t.name])
+    .map(t => ({ ...t, columns: t.columns.filter(c => restrictTo[t.name].includes(c.name)) }));
+}
+
+// Drops the cache and introspects again (e.g. after a migration)
+export const refreshAnalyticsSchema = () => loadSchema(true);
+
+// Allow-list for validateSql()
+export const schemaAllowList = (schema: TableSchema[]): Record<string, string[]> =>
+  Object.fromEntries(schema.map(t => [t.name, t.columns.map(c => c.name)]));
+
+// Prompt text, e.g.
+//   - tickets (call_id text, category text, ...)
+//     * category: 'Billing', 'Outage' (exact, case-sensitive)
+export function describeSchema(schema: TableSchema[]): string {
+  return schema.map(table => {
+    const columns = table.columns.map(c => (c.type ? `${c.name} ${c.type}` : c.name)).join(', ');
+    const values = table.columns
+      .filter(c => c.values?.length)
+      .map(c => `\n  * ${c.name}: ${c.values!.map(v => `'${v.replace(/'/g, "''")}'`).join(', ')} (exact, case-sensitive)`);
+    return `- ${table.name} (${columns})${values.join('')}`;
+  }).join('\n');
+}
@@ -0,0 +1,126 @@
+// Natural-language question -> guarded, executed SQL.
+// Shared by the analytics handler in /api/chat and the agent's database tool.
+// One question gets one query. Database errors and empty results go back to
+// the model for another try (see sqlRepair.ts); guard rejections are final.
+
+import { complete, LLMMessage } from './llm';
+import { validateSql, SqlGuardOptions, SqlRejection } from './sqlGuard';
+import { getAnalyticsSchema, schemaAllowList, describeSchema } from './analyticsSchema';
+import { executeReadonlySql, queryDetails, QueryDetails } from './analyticsQuery';
+import { MAX_SQL_ATTEMPTS, SqlAttempt, parseGeneratedSql, repairPrompt } from './sqlRepair';
+import { formatHistoryForPrompt, ConversationContext } from './conversation';
+import type { KnowledgeAgent } from './knowledgeSources';
+
+// --- TYPES ---
+export interface AnalyticsContext {
+  schemaText: string;              // describeSchema output, for prompts
+  guardOptions: SqlGuardOptions;   // caller's access narrowed to the schema's tables
+  sqlSystemPrompt: string;
+}
+
+export interface SqlRun {
+  question: string;
+  attempts: SqlAttempt[];
+  rows: Record<string, unknown>[];
+  query: QueryDetails | null;   // the last query that ran, for "show your work"
+  rejection?: SqlRejection;
+  connectionError?: boolean;
+  error?: string;               // no query could be run (e.g. the model wrote no SQL)
+}
+
+/**
+ * Schema, allow-list and SQL prompt for one agent and caller, or null when
+ * the caller may not query any of the agent's tables.
+ */
+export async function prepareAnalytics(
+  agent: KnowledgeAgent,
+  access: SqlGuardOptions,
+  conversation?: ConversationContext
+): Promise<AnalyticsContext | null> {
+  const schema = await getAnalyticsSchema(agent, access.allowedTables);
+  if (schema.length === 0) return null;
+
+  const currentDate = new Date().toISOString().split('T')[0];
+  const historyBlock = conversation ? formatHistoryForPrompt(conversation) : '';
+  const schemaText = describeSchema(schema);
+  const scopeNote = access.rowScope
+    ? `\n    Access: These tables already contain only the signed-in resident's own records, so do not filter by customer_id.`
+    : '';
+
+  const sqlSystemPrompt = `
+    You are a PostgreSQL Expert.
+    Current Date: ${currentDate} (Data is mostly 2024-2025)
+
+    Table Schema:
+    ${schemaText.replace(/\n/g, '\n    ')}
+
+    Goal: Write a SQL query for the user's question.
+    Rules:
+    - Use only the tables and columns listed above.
+    - Compare categorical columns only against the listed values, spelled exactly.
+    - FOR TRENDS: GROUP BY a date column (date_trunc('day', ...) or date_trunc('month', ...)).
+    - FOR PIE CHARTS: GROUP BY a categorical column.
+    - DO NOT use a semicolon (;) at the end.
+    - Return ONLY the SQL string. No markdown.
+    ${scopeNote}
+    ${historyBlock ? `\n    Use the conversation for context (the question may refine an earlier one):\n    ${historyBlock}` : ''}
+  `;
+
+  return {
+    schemaText,
+    guardOptions: { ...access, allowedTables: schemaAllowList(schema) },
+    sqlSystemPrompt,
+  };
+}
+
+// --- GENERATE & RUN ---
+export async function runAnalyticsSql(question: string, context: AnalyticsContext): Promise<SqlRun> {
+  const sqlMessages: LLMMessage[] = [
+    { role: 'system', content: context.sqlSystemPrompt },
+    { role: 'user', content: question }
+  ];
+  const result: SqlRun = { question, attempts: [], rows: [], query: null };
+  const { attempts } = result;
+
+  while (attempts.length < MAX_SQL_ATTEMPTS) {
+    const generated = await complete('sql', sqlMessages, { temperature: 0 });
+    const { sql: query, note } = parseGeneratedSql(generated);
+    if (!query) throw new Error("Failed to generate SQL");
+
+    // Single read-only SELECT over allow-listed tables
+    const guard = validateSql(query, context.guardOptions);
+    if (guard.ok === false) {
+      console.warn(`[SQL Guard] Rejected (${guard.rejection.reason}):`, query);
+      attempts.push({ sql: query, outcome: 'rejected', detail: guard.rejection.message, note });
+      return { ...result, rejection: guard.rejection };
+    }
+    console.log(`Executing SQL (attempt ${attempts.length + 1}):`, guard.sql);
+
+    const run = await executeReadonlySql(guard.sql);
+    const { durationMs } = run;
+    if (run.ok === false && run.connectionError) return { ...result, connectionError: true };
+
+    const previous = attempts[attempts.length - 1];
+    if (run.ok === false) {
+      attempts.push({ sql: guard.sql, outcome: 'db_error', detail: run.error, note, durationMs });
+    } else if (run.rows.length === 0) {
+      attempts.push({ sql: guard.sql, outcome: 'empty', rowCount: 0, note, durationMs });
+      result.query = queryDetails(guard.sql, [], durationMs);
+    } else {
+      attempts.push({ sql: guard.sql, outcome: 'ok', rowCount: run.rows.length, note, durationMs });
+      result.rows = run.rows;
+      result.query = queryDetails(guard.sql, run.rows, durationMs);
+      break;
+    }
+
+    // The model stood by its query: nothing left to repair
+    if (note?.toLowerCase() === 'none' || previous?.sql === guard.sql) break;
+    sqlMessages.push(
+      { role: 'assistant', content: generated },
+      { role: 'user', content: repairPrompt(attempts[attempts.length - 1], context.schemaText) }
+    );
+  }
+
+  console.log(`[SQL] ${attempts.length} attempt(s): ${attempts.map(a => a.outcome).join(' -> ')}`);
+  return result;
+}
@@ -0,0 +1,260 @@
+// Getting a chart out of the chat: the data as CSV, XLSX or a Markdown
+// table, and the chart itself as SVG. (PNG comes straight from the canvas in
+// ChartDisplay.) Runs in the browser; the XLSX writer is loaded only when needed.
+
+import type { ChartData } from '../components/ChartDisplay';
+
+// --- TABLE ---
+export interface ChartTable {
+  headers: string[];                    // label column, then one per dataset
+  rows: (string | number)[][];
+}
+
+export function chartTable(chart: ChartData): ChartTable {
+  const { labels, datasets } = chart.data;
+  return {
+    headers: ['Label', ...datasets.map((ds, i) => ds.label || `Series ${i + 1}`)],
+    rows: labels.map((label, i) => [label, ...datasets.map(ds => ds.data[i])]),
+  };
+}
+
+// "Tickets by Category (2024)" -> "tickets-by-category-2024"
+export const exportFileName = (chart: ChartData, extension: string) =>
+  `${chart.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chart'}.${extension}`;
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// --- CSV / MARKDOWN / XLSX ---
+const csvCell = (value: string | number) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(chart: ChartData): string {
+  const { headers, rows } = chartTable(chart);
+  return [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n');
+}
+
+const markdownCell = (value: string | number) => String(value ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+export function toMarkdown(chart: ChartData): string {
+  const { headers, rows } = chartTable(chart);
+  const align = headers.map((_, i) => (i === 0 ? '---' : '---:'));
+  return [headers, align, ...rows].map(row => `| ${row.map(markdownCell).join(' | ')} |`).join('\n');
+}
+
+export async function toXlsx(chart: ChartData): Promise<Blob> {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  const { headers, rows } = chartTable(chart);
+  return writeXlsxFile([headers, ...rows], {
+    // Sheet names are limited to 31 characters and a few forbidden symbols
+    sheet: chart.title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Chart',
+  }).toBlob();
+}
+
+// --- SVG ---
+export interface SvgColors {
+  series: string[];     // one per dataset (repeats)
+  slices: string[];     // pie/doughnut, one per label (repeats)
+}
+
+const WIDTH = 720;
+const HEIGHT = 400;
+const FONT = "font-family=\"Inter, Helvetica, Arial, sans-serif\"";
+
+const escapeXml = (text: string) =>
+  String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pick = (colors: string[], i: number) => colors[i % colors.length];
+
+const formatTick = (value: number) =>
+  Math.abs(value) >= 1000 ? value.toLocaleString('en-US', { maximumFractionDigits: 0 }) : String(Number(value.toFixed(2)));
+
+// Round axis bounds and a step of 1, 2 or 5 x 10^n
+function niceScale(min: number, max: number, ticks = 5) {
+  const span = max - min || Math.abs(max) || 1;
+  const raw = span / ticks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw)!;
+  return { min: Math.floor(min / step) * step, max: Math.ceil(max / step) * step, step };
+}
+
+function legend(items: { label: string; color: string }[], x: number, y: number, vertical: boolean): string {
+  let offset = 0;
+  return items.map(item => {
+    const cx = vertical ? x : x + offset;
+    const cy = vertical ? y + offset : y;
+    offset += vertical ? 20 : 24 + item.label.length * 6.5;
+    return `<circle cx="${cx + 4}" cy="${cy - 4}" r="4" fill="${item.color}"/>` +
+      `<text x="${cx + 14}" y="${cy}" ${FONT} font-size="11" fill="#64748b">${escapeXml(item.label)}</text>`;
+  }).join('');
+}
+
+type Scale = ReturnType<typeof niceScale>;
+
+const scaleTicks = (scale: Scale) => {
+  const ticks: number[] = [];
+  for (let v = scale.min; v <= scale.max + scale.step / 2; v += scale.step) ticks.push(v);
+  return ticks;
+};
+
+// Bars, lines and points. Bars group side by side (bar, combo), stack
+// (stackedBar) or run sideways (horizontalBar); combo lines use a right-hand axis.
+function cartesianSvg(chart: ChartData, colors: SvgColors): string {
+  const { labels, datasets } = chart.data;
+  const type = chart.chartType;
+  const horizontal = type === 'horizontalBar';
+  const stacked = type === 'stackedBar';
+  const scatter = type === 'scatter';
+  const isLine = (ds: ChartData['data']['datasets'][number]) =>
+    type === 'line' || type === 'area' || (type === 'combo' && ds.type === 'line');
+
+  const primary = datasets.filter(ds => ds.yAxisID !== 'y1');
+  const secondary = datasets.filter(ds => ds.yAxisID === 'y1');
+  const plot = {
+    left: horizontal ? 128 : 64,
+    right: WIDTH - (secondary.length ? 64 : 24),
+    top: datasets.length > 1 ? 72 : 56,
+    bottom: HEIGHT - 56,
+  };
+
+  // Value scales; stacked bars need room for each label's total
+  const stackTotals = (sign: 1 | -1) =>
+    labels.map((_, i) => primary.reduce((sum, ds) => sum + (Math.sign(ds.data[i]) === sign ? ds.data[i] : 0), 0));
+  const primaryValues = stacked ? [...stackTotals(1), ...stackTotals(-1)] : primary.flatMap(ds => ds.data);
+  const scale = niceScale(Math.min(0, ...primaryValues), Math.max(0, ...primaryValues));
+  const secondaryValues = secondary.flatMap(ds => ds.data);
+  const scale2 = secondary.length ? niceScale(Math.min(0, ...secondaryValues), Math.max(0, ...secondaryValues)) : null;
+
+  // Value -> pixel along the value axis (y, or x for horizontal bars)
+  const valuePos = (v: number, s: Scale = scale) => {
+    const fraction = (v - s.min) / (s.max - s.min);
+    return horizontal ? plot.left + fraction * (plot.right - plot.left) : plot.bottom - fraction * (plot.bottom - plot.top);
+  };
+
+  // Category (or scatter x) -> pixel along the other axis
+  const xValues = labels.map(Number);
+  const xScale = scatter ? niceScale(Math.min(...xValues), Math.max(...xValues)) : null;
+  const categoryLength = horizontal ? plot.bottom - plot.top : plot.right - plot.left;
+  const band = categoryLength / labels.length;
+  const categoryPos = (i: number) => scatter
+    ? plot.left + ((xValues[i] - xScale!.min) / (xScale!.max - xScale!.min)) * (plot.right - plot.left)
+    : (horizontal ? plot.top : plot.left) + band * (i + 0.5);
+
+  const parts: string[] = [];
+  const text = (x: number, y: number, anchor: string, content: string, fill = '#94a3b8') =>
+    `<text x="${x}" y="${y}" text-anchor="${anchor}" ${FONT} font-size="10" fill="${fill}">${escapeXml(content)}</text>`;
+
+  // Grid and value ticks
+  scaleTicks(scale).forEach(v => {
+    const p = valuePos(v);
+    parts.push(horizontal
+      ? `<line x1="${p}" x2="${p}" y1="${plot.top}" y2="${plot.bottom}" stroke="#f1f5f9"/>` + text(p, plot.bottom + 18, 'middle', formatTick(v))
+      : `<line x1="${plot.left}" x2="${plot.right}" y1="${p}" y2="${p}" stroke="#f1f5f9"/>` + text(plot.left - 8, p + 3, 'end', formatTick(v)));
+  });
+  if (scale2) scaleTicks(scale2).forEach(v => parts.push(text(plot.right + 8, valuePos(v, scale2) + 3, 'start', formatTick(v))));
+
+  // Category labels, thinned out so they don't overlap
+  if (scatter) {
+    scaleTicks(xScale!).forEach(v => {
+      const x = plot.left + ((v - xScale!.min) / (xScale!.max - xScale!.min)) * (plot.right - plot.left);
+      parts.push(text(x, plot.bottom + 18, 'middle', formatTick(v), '#64748b'));
+    });
+  } else {
+    const every = Math.ceil(labels.length / Math.max(1, Math.floor(categoryLength / (horizontal ? 16 : 70))));
+    labels.forEach((label, i) => {
+      if (i % every) return;
+      parts.push(horizontal
+        ? text(plot.left - 8, categoryPos(i) + 3, 'end', label.length > 20 ? `${label.slice(0, 19)}…` : label, '#64748b')
+        : text(categoryPos(i), plot.bottom + 18, 'middle', label, '#64748b'));
+    });
+  }
+
+  // Bars
+  const barSets = datasets.filter(ds => !scatter && !isLine(ds));
+  const groupWidth = band * 0.7;
+  const barWidth = stacked ? groupWidth : groupWidth / (barSets.length || 1);
+  const stackBase = labels.map(() => ({ up: 0, down: 0 }));
+  barSets.forEach((ds, b) => {
+    const color = pick(colors.series, datasets.indexOf(ds));
+    ds.data.forEach((v, i) => {
+      const offset = stacked ? 0 : b * barWidth;
+      let from = 0;
+      if (stacked) {
+        from = v >= 0 ? stackBase[i].up : stackBase[i].down;
+        if (v >= 0) stackBase[i].up += v; else stackBase[i].down += v;
+      }
+      const start = valuePos(from, ds.yAxisID === 'y1' ? scale2! : scale);
+      const end = valuePos(from + v, ds.yAxisID === 'y1' ? scale2! : scale);
+      const across = categoryPos(i) - groupWidth / 2 + offset;
+      const thickness = Math.max(1, barWidth - 2);
+      parts.push(horizontal
+        ? `<rect x="${Math.min(start, end)}" y="${across}" width="${Math.abs(end - start)}" height="${thickness}" rx="3" fill="${color}" fill-opacity="0.75"/>`
+        : `<rect x="${across}" y="${Math.min(start, end)}" width="${thickness}" height="${Math.abs(end - start)}" rx="3" fill="${color}" fill-opacity="0.75"/>`);
+    });
+  });
+
+  // Lines, areas and points
+  datasets.forEach((ds, d) => {
+    if (!scatter && !isLine(ds)) return;
+    const color = pick(colors.series, d);
+    const s = ds.yAxisID === 'y1' ? scale2! : scale;
+    if (scatter) {
+      ds.data.forEach((v, i) => parts.push(`<circle cx="${categoryPos(i)}" cy="${valuePos(v)}" r="4" fill="${color}" fill-opacity="0.7"/>`));
+      return;
+    }
+    const points = ds.data.map((v, i) => `${categoryPos(i)},${valuePos(v, s)}`).join(' ');
+    const filled = type === 'area' || (type === 'line' && datasets.length === 1);
+    if (filled) {
+      parts.push(`<polygon points="${categoryPos(0)},${valuePos(0, s)} ${points} ${categoryPos(ds.data.length - 1)},${valuePos(0, s)}" fill="${color}" fill-opacity="${type === 'area' ? 0.25 : 0.12}"/>`);
+    }
+    parts.push(`<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round"/>`);
+  });
+
+  if (datasets.length > 1) {
+    parts.push(legend(datasets.map((ds, d) => ({ label: ds.label, color: pick(colors.series, d) })), plot.left, 52, false));
+  }
+  return parts.join('');
+}
+
+function radialSvg(chart: ChartData, colors: SvgColors): string {
+  const { labels, datasets } = chart.data;
+  const values = datasets[0].data.map(v => Math.max(0, v));
+  const total = values.reduce((a, b) => a + b, 0) || 1;
+  const cx = 200, cy = HEIGHT / 2 + 16, r = 130;
+  const inner = chart.chartType === 'doughnut' ? r * 0.7 : 0;
+
+  const point = (angle: number, radius: number) => `${cx + radius * Math.cos(angle)},${cy + radius * Math.sin(angle)}`;
+  let angle = -Math.PI / 2;
+
+  const slices = values.map((v, i) => {
+    const sweep = (v / total) * Math.PI * 2;
+    const end = angle + Math.min(sweep, Math.PI * 2 - 1e-4);
+    const large = sweep > Math.PI ? 1 : 0;
+    const path = inner
+      ? `M${point(angle, r)} A${r},${r} 0 ${large} 1 ${point(end, r)} L${point(end, inner)} A${inner},${inner} 0 ${large} 0 ${point(angle, inner)} Z`
+      : `M${cx},${cy} L${point(angle, r)} A${r},${r} 0 ${large} 1 ${point(end, r)} Z`;
+    angle += sweep;
+    return v > 0 ? `<path d="${path}" fill="${pick(colors.slices, i)}" stroke="#ffffff" stroke-width="2"/>` : '';
+  });
+
+  const items = labels.map((label, i) => ({ label: `${label} (${formatTick(values[i])})`, color: pick(colors.slices, i) }));
+  return slices.join('') + legend(items, 400, 90, true);
+}
+
+export function toSvg(chart: ChartData, colors: SvgColors): string {
+  const body = chart.chartType === 'pie' || chart.chartType === 'doughnut' ? radialSvg(chart, colors) : cartesianSvg(chart, colors);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>` +
+    `<text x="24" y="32" ${FONT} font-size="15" font-weight="700" fill="#1e293b">${escapeXml(chart.title)}</text>` +
+    body +
+    (chart.explanation ? `<text x="24" y="${HEIGHT - 16}" ${FONT} font-size="11" fill="#475569">${escapeXml(chart.explanation)}</text>` : '') +
+    `</svg>`;
+}
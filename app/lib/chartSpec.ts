@@ -0,0 +1,211 @@
+// Charts for SQL answers, built in code from the result rows. The model only
+// picks the chart type, title and one-line insight (ChartChoice); labels and
+// numbers always come straight from the query result. Every spec is checked
+// against chartDataSchema before it reaches ChartDisplay.
+
+import { z } from 'zod';
+import type { ChartData, ChartType } from '../components/ChartDisplay';
+
+type Row = Record<string, unknown>;
+
+// --- SCHEMAS ---
+export const CHART_TYPES = [
+  'line', 'area', 'bar', 'stackedBar', 'horizontalBar', 'combo', 'scatter', 'pie', 'doughnut',
+] as const satisfies readonly ChartType[];
+
+// Types that can put dates on a time axis
+const TIME_AXIS_TYPES: ChartType[] = ['line', 'area', 'bar', 'stackedBar', 'combo'];
+const RADIAL_TYPES: ChartType[] = ['pie', 'doughnut'];
+
+export const chartDataSchema = z.object({
+  type: z.literal('chart'),
+  chartType: z.enum(CHART_TYPES),
+  title: z.string().min(1),
+  explanation: z.string(),
+  xScale: z.enum(['category', 'time']).optional(),
+  data: z.object({
+    labels: z.array(z.string()).min(1),
+    datasets: z.array(z.object({
+      label: z.string(),
+      data: z.array(z.number().finite()),
+      type: z.enum(['bar', 'line']).optional(),
+      yAxisID: z.enum(['y', 'y1']).optional(),
+      borderColor: z.string().optional(),
+      backgroundColor: z.union([z.string(), z.array(z.string())]).optional(),
+    })).min(1),
+  }),
+}).refine(
+  chart => chart.data.datasets.every(ds => ds.data.length === chart.data.labels.length),
+  { message: 'Every dataset needs one value per label' }
+).refine(
+  chart => chart.chartType !== 'scatter' || chart.data.labels.every(label => Number.isFinite(Number(label))),
+  { message: 'Scatter x values must be numbers' }
+);
+
+// What the model decides; 'none' means no chart (tables and KPIs leave it out)
+export const chartChoiceSchema = z.object({
+  chart: z.enum([...CHART_TYPES, 'none']).default('none'),
+  title: z.string().default(''),
+  explanation: z.string().default(''),
+  unit: z.string().max(12).optional(),
+});
+
+export type ChartChoice = z.infer<typeof chartChoiceSchema>;
+
+// --- COLUMN ANALYSIS ---
+export type ColumnKind = 'number' | 'date' | 'text';
+
+export interface ResultColumn {
+  name: string;
+  kind: ColumnKind;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?)?$/;
+
+// Postgres numerics and bigints may arrive as strings in JSON
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+export function analyzeColumns(rows: Row[]): ResultColumn[] {
+  const names = rows.length ? Object.keys(rows[0]) : [];
+  return names.map(name => {
+    const values = rows.map(r => r[name]).filter(v => v !== null && v !== undefined);
+    if (values.length && values.every(v => toNumber(v) !== null)) return { name, kind: 'number' as const };
+    if (values.length && values.every(v => typeof v === 'string' && ISO_DATE.test(v))) return { name, kind: 'date' as const };
+    return { name, kind: 'text' as const };
+  });
+}
+
+// "2024-03-01T00:00:00+00:00" -> "2024-03-01"; keeps the time when it matters
+export const formatLabel = (value: unknown, kind: ColumnKind): string => {
+  if (value === null || value === undefined) return '(none)';
+  if (kind === 'date') {
+    const [date, time = ''] = String(value).split(/[T ]/);
+    return /^00:00(:00)?/.test(time) || !time ? date : `${date} ${time.slice(0, 5)}`;
+  }
+  return String(value);
+};
+
+// "consumption_kwh" -> "Consumption kwh"
+export const humanize = (column: string) => {
+  const words = column.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// One label column plus at least one numeric column, over more than one row.
+// Without a date or text column the first number (e.g. a year) labels the rest.
+function chartLayout(rows: Row[]) {
+  const columns = analyzeColumns(rows);
+  const numbers = columns.filter(c => c.kind === 'number');
+  const label = columns.find(c => c.kind === 'date') || columns.find(c => c.kind === 'text') || (numbers.length > 1 ? numbers[0] : undefined);
+  const values = numbers.filter(c => c !== label);
+  if (rows.length < 2 || !label || !values.length) return null;
+  return { label, values };
+}
+
+// Falls back to a simpler type when the columns don't fit the chosen one
+function fitChartType(chart: ChartType, layout: NonNullable<ReturnType<typeof chartLayout>>) {
+  if (chart === 'scatter') {
+    // x must be numeric: the label column itself, or the first measure
+    if (layout.label.kind === 'number') return { chartType: chart, ...layout };
+    if (layout.values.length > 1) return { chartType: chart, label: layout.values[0], values: layout.values.slice(1) };
+    return { chartType: 'line' as ChartType, ...layout };
+  }
+  if (chart === 'combo' && layout.values.length < 2) return { chartType: 'bar' as ChartType, ...layout };
+  // Slices of a pie only make sense for a single measure
+  if (RADIAL_TYPES.includes(chart)) return { chartType: chart, label: layout.label, values: layout.values.slice(0, 1) };
+  return { chartType: chart, ...layout };
+}
+
+export const isChartable = (rows: Row[]) => chartLayout(rows) !== null;
+
+// Default style when no model picked one (e.g. a query re-run from the panel)
+export function suggestChartType(rows: Row[]): ChartChoice['chart'] {
+  const layout = chartLayout(rows);
+  if (!layout) return 'none';
+  return layout.label.kind === 'date' ? 'line' : 'bar';
+}
+
+// --- BUILD ---
+/**
+ * Chart spec for `rows` in the chosen style, or null when the rows can't be
+ * charted, the model chose 'none', or the result fails validation.
+ */
+export function buildChartData(rows: Row[], choice: ChartChoice): ChartData | null {
+  const layout = chartLayout(rows);
+  if (!layout || choice.chart === 'none') return null;
+
+  const { chartType, label, values } = fitChartType(choice.chart, layout);
+  const isCombo = chartType === 'combo';
+
+  const candidate = {
+    type: 'chart',
+    chartType,
+    title: choice.title.trim() || `${values.map(c => humanize(c.name)).join(', ')} by ${humanize(label.name).toLowerCase()}`,
+    explanation: choice.explanation.trim(),
+    ...(label.kind === 'date' && TIME_AXIS_TYPES.includes(chartType) && { xScale: 'time' }),
+    data: {
+      labels: rows.map(r => formatLabel(r[label.name], label.kind)),
+      // Combo: the first measure as bars, the others as lines on the secondary axis
+      datasets: values.map((c, i) => ({
+        label: humanize(c.name),
+        data: rows.map(r => toNumber(r[c.name]) ?? 0),
+        ...(isCombo && (i === 0 ? { type: 'bar', yAxisID: 'y' } : { type: 'line', yAxisID: 'y1' })),
+      })),
+    },
+  };
+
+  const parsed = chartDataSchema.safeParse(candidate);
+  if (!parsed.success) {
+    console.warn("[Chart] Invalid chart spec:", parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '));
+    return null;
+  }
+  // Without strictNullChecks zod infers every key as optional; the schema guarantees them
+  return parsed.data as ChartData;
+}
+
+// --- PROMPT HELPERS ---
+const SAMPLE_ROWS = 40;
+
+/**
+ * The result as the model sees it: column kinds, exact totals and ranges
+ * computed here, and the rows themselves (all of them when they fit).
+ */
+export function describeRows(rows: Row[]): string {
+  const columns = analyzeColumns(rows);
+  const lines = [`${rows.length} row(s). Columns: ${columns.map(c => `${c.name} (${c.kind})`).join(', ')}.`];
+
+  columns.filter(c => c.kind === 'number').forEach(c => {
+    const values = rows.map(r => toNumber(r[c.name])).filter((v): v is number => v !== null);
+    if (!values.length) return;
+    const sum = values.reduce((a, b) => a + b, 0);
+    lines.push(`${c.name}: min ${Math.min(...values)}, max ${Math.max(...values)}, sum ${Number(sum.toFixed(4))}, average ${Number((sum / values.length).toFixed(4))}`);
+  });
+
+  const shown = rows.slice(0, SAMPLE_ROWS);
+  lines.push(`Rows${rows.length > shown.length ? ` (first ${shown.length})` : ''}:`);
+  shown.forEach(r => lines.push(JSON.stringify(r)));
+  return lines.join('\n');
+}
+
+// The model's choices from a fenced ```json block at the end of its reply:
+// one object, or an array with one entry per result. Entries that are
+// missing or invalid come back as null.
+export function parseChartChoices(text: string, count = 1): (ChartChoice | null)[] {
+  const blocks = Array.from(text.matchAll(/```(?:json)?\s*([\s\S]*?)```/g));
+  const last = blocks[blocks.length - 1];
+  let entries: unknown[] = [];
+  try {
+    const parsed = last ? JSON.parse(last[1]) : [];
+    entries = Array.isArray(parsed) ? parsed : [parsed];
+  } catch (e) {
+    entries = [];
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const parsed = chartChoiceSchema.safeParse(entries[i]);
+    return parsed.success ? parsed.data : null;
+  });
+}
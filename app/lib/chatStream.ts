@@ -0,0 +1,105 @@
+// Streaming protocol between /api/chat and the chat window.
+// The response body is NDJSON: one ChatStreamEvent per line, in this order:
+//   route -> (step | query)* -> sources? -> token* -> chart* | tickets? | serviceRequest? -> done   (or error at any point)
+// Database answers emit a query and a chart per sub-query with rows, in answer order;
+// the agent emits a step per tool call; service request intake emits the request's state.
+
+import type { Visualization } from './visualization';
+import type { SqlRejection } from './sqlGuard';
+import type { TicketLookup } from './tickets';
+import type { RetrievalScores } from './retrieval';
+import type { SqlAttempt } from './sqlRepair';
+import type { QueryDetails } from './analyticsQuery';
+import type { AgentStep } from './agent';
+import type { ServiceRequestState } from './serviceRequests';
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+export type ChatRoute = 'sql' | 'vector' | 'hybrid' | 'ticket' | 'agent' | 'intake';
+
+export interface ChatSource {
+  source: string;       // document name, or "Live Database"
+  score: number;
+  ref?: number;         // citation number used as [n] in the answer
+  text?: string;        // the retrieved passage
+  page?: number;
+  sql?: string;         // the query behind a database answer
+  retrieval?: RetrievalScores;   // per-stage scores, for debugging
+}
+
+// Final, cleaned-up result of a handler. The `done` event carries it so the
+// client can replace the streamed draft with the canonical text.
+export interface ChatResult {
+  response: string;
+  visualizations?: Visualization[];   // charts, tables or KPI cards, in answer order
+  sources?: ChatSource[];
+  rejection?: SqlRejection;
+  tickets?: TicketLookup[];
+  queries?: QueryDetails[];     // the queries behind a database answer, with their rows
+  sqlAttempts?: SqlAttempt[];   // every query tried on the SQL path, in order
+  trace?: AgentStep[];          // the agent's tool calls, for debugging
+  serviceRequest?: ServiceRequestState;   // a report being filed from chat
+}
+
+export type ChatStreamEvent =
+  | { type: 'route'; route: ChatRoute }
+  | { type: 'step'; step: AgentStep }
+  | { type: 'query'; query: QueryDetails }
+  | { type: 'sources'; sources: ChatSource[] }
+  | { type: 'token'; text: string }
+  | { type: 'chart'; visualization: Visualization }
+  | { type: 'tickets'; tickets: TicketLookup[] }
+  | { type: 'serviceRequest'; serviceRequest: ServiceRequestState }
+  | { type: 'done'; result: ChatResult }
+  | { type: 'error'; error: string };
+
+export type EmitEvent = (event: ChatStreamEvent) => void;
+
+// --- SERVER: Build an NDJSON stream around a producer ---
+export function createChatStream(produce: (emit: EmitEvent) => Promise<void>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const emit: EmitEvent = (event) => {
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      };
+      try {
+        await produce(emit);
+      } catch (error: any) {
+        console.error("Stream Error:", error);
+        emit({ type: 'error', error: error?.message || 'Unexpected error' });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+}
+
+// --- CLIENT: Read NDJSON events from a fetch() response ---
+export async function readChatStream(res: Response, onEvent: (event: ChatStreamEvent) => void): Promise<void> {
+  if (!res.body) throw new Error('Response has no body');
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    if (!line.trim()) return;
+    onEvent(JSON.parse(line) as ChatStreamEvent);
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      flushLine(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  flushLine(buffer + decoder.decode());
+}
@@ -0,0 +1,38 @@
+// Numbered citations in answers ("Off-peak starts at 8 p.m. [2]").
+// The semantic handler numbers retrieved passages; the model cites them with
+// [n] or [n, m]. Shared by the server (which sources were cited) and the chat
+// window (which markers become clickable).
+
+import type { ChatSource } from './chatStream';
+
+// [2] or [1, 3] — but not a markdown link label like [2](...)
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+export const CITATION_HREF_PREFIX = '#cite-';
+
+export function citedRefs(text: string): Set<number> {
+  const refs = new Set<number>();
+  for (const match of Array.from(text.matchAll(CITATION_PATTERN))) {
+    match[1].split(',').forEach(n => refs.add(Number(n.trim())));
+  }
+  return refs;
+}
+
+// Sources cited in `text`, in citation-number order. Falls back to the
+// best `fallbackCount` when the model cited nothing.
+export function citedSources(text: string, sources: ChatSource[], fallbackCount = 3): ChatSource[] {
+  const refs = citedRefs(text);
+  const cited = sources.filter(s => s.ref !== undefined && refs.has(s.ref));
+  return cited.length ? cited : sources.slice(0, fallbackCount);
+}
+
+// Rewrites known markers as markdown links (#cite-n) so ReactMarkdown can render them as buttons.
+export function linkCitations(text: string, sources: ChatSource[] = []): string {
+  const known = new Set(sources.map(s => s.ref).filter((ref): ref is number => ref !== undefined));
+  if (!known.size) return text;
+  return text.replace(CITATION_PATTERN, (marker, list: string) => {
+    const refs = list.split(',').map(n => Number(n.trim()));
+    if (!refs.every(ref => known.has(ref))) return marker;
+    return refs.map(ref => `[${ref}](${CITATION_HREF_PREFIX}${ref})`).join('');
+  });
+}
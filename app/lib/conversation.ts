@@ -0,0 +1,105 @@
+// Conversation history handling for /api/chat.
+// The client sends prior turns with every message; this module trims them,
+// summarizes older turns once the history gets long, and rewrites follow-up
+// questions ("now break that down by month") into standalone ones.
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationContext {
+  // The latest message rewritten so it can be understood without history
+  standalone: string;
+  // Summary of turns older than the verbatim window (null when not needed)
+  summary: string | null;
+  // Most recent turns, passed to the model as-is
+  recentTurns: ChatTurn[];
+}
+
+export type CompleteFn = (
+  messages: { role: 'system' | 'user' | 'assistant'; content: string }[],
+  options?: { temperature?: number }
+) => Promise<string>;
+
+// --- LIMITS ---
+const MAX_HISTORY_TURNS = 40;
+const MAX_TURN_CHARS = 1200;
+const VERBATIM_TURNS = 6;
+
+// Drops malformed entries and caps the size of what the client sent.
+export function sanitizeHistory(raw: unknown): ChatTurn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((t: any) => t && (t.role === 'user' || t.role === 'assistant') && typeof t.content === 'string' && t.content.trim())
+    .slice(-MAX_HISTORY_TURNS)
+    .map((t: any) => ({ role: t.role, content: t.content.trim().slice(0, MAX_TURN_CHARS) }));
+}
+
+const transcript = (turns: ChatTurn[]) =>
+  turns.map(t => `${t.role === 'user' ? 'User' : 'Assistant'}: ${t.content}`).join('\n');
+
+async function summarizeTurns(turns: ChatTurn[], complete: CompleteFn): Promise<string> {
+  const summary = await complete([
+    {
+      role: 'system',
+      content: `Summarize this conversation between a resident and a City of Rancho Cordova assistant in 3-5 sentences.
+Keep every concrete detail a follow-up question could refer to: metrics, tables, filters, date ranges, account types, ticket IDs, programs and places.
+Return only the summary.`
+    },
+    { role: 'user', content: transcript(turns) }
+  ], { temperature: 0 });
+  return summary.trim();
+}
+
+async function rewriteAsStandalone(message: string, context: string, complete: CompleteFn): Promise<string> {
+  const rewritten = await complete([
+    {
+      role: 'system',
+      content: `Rewrite the user's latest message as a standalone question using the conversation for context.
+Resolve references like "that", "it", "those" or "what about ..." to what they refer to.
+If the message is already standalone, return it unchanged.
+Return ONLY the question. No quotes, no explanation.`
+    },
+    { role: 'user', content: `Conversation:\n${context}\n\nLatest message: ${message}` }
+  ], { temperature: 0 });
+
+  const question = rewritten.trim().replace(/^["']|["']$/g, '');
+  return question || message;
+}
+
+/**
+ * Builds the context for the latest message. Without history this makes no
+ * LLM calls; with history it summarizes older turns (if any) and rewrites the
+ * message into a standalone question used for routing and retrieval.
+ */
+export async function buildConversationContext(
+  message: string,
+  history: ChatTurn[],
+  complete: CompleteFn
+): Promise<ConversationContext> {
+  if (history.length === 0) return { standalone: message, summary: null, recentTurns: [] };
+
+  const olderTurns = history.slice(0, -VERBATIM_TURNS);
+  const recentTurns = history.slice(-VERBATIM_TURNS);
+
+  try {
+    const summary = olderTurns.length ? await summarizeTurns(olderTurns, complete) : null;
+    const promptContext = (summary ? `Summary of earlier conversation: ${summary}\n` : '') + transcript(recentTurns);
+    const standalone = await rewriteAsStandalone(message, promptContext, complete);
+    return { standalone, summary, recentTurns };
+  } catch (e) {
+    console.error("Conversation Context Error:", e);
+    return { standalone: message, summary: null, recentTurns };
+  }
+}
+
+// Text block describing prior conversation, for inclusion in system prompts.
+export function formatHistoryForPrompt(ctx: ConversationContext): string {
+  if (!ctx.summary && ctx.recentTurns.length === 0) return '';
+  return [
+    'Conversation so far:',
+    ctx.summary ? `Summary of earlier conversation: ${ctx.summary}` : '',
+    transcript(ctx.recentTurns),
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,283 @@
+// Server-side persistence for chat conversations.
+// Backend is chosen with CONVERSATION_STORE: 'supabase' (default when
+// SUPABASE_URL is set) or 'file' (JSON file, for local development).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { Visualization } from './visualization';
+import type { ChatSource } from './chatStream';
+import type { SqlRejection } from './sqlGuard';
+import type { TicketLookup } from './tickets';
+import type { QueryDetails } from './analyticsQuery';
+import type { ServiceRequestState } from './serviceRequests';
+import { getSupabase } from './supabase';
+
+// --- TYPES ---
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  visualizations?: Visualization[];
+  sources?: ChatSource[];
+  rejection?: SqlRejection;
+  tickets?: TicketLookup[];
+  queries?: QueryDetails[];
+  serviceRequest?: ServiceRequestState;
+  createdAt: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  ownerId: string;
+  title: string;
+  agentType: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: StoredMessage[];
+}
+
+export type NewMessage = Omit<StoredMessage, 'id' | 'createdAt'>;
+
+// Every operation is scoped to the owning user; other users' conversations behave as missing.
+export interface ConversationStore {
+  list(ownerId: string): Promise<ConversationSummary[]>;
+  create(input: { title: string; agentType: string; ownerId: string }): Promise<ConversationSummary>;
+  get(id: string, ownerId: string): Promise<Conversation | null>;
+  rename(id: string, ownerId: string, title: string): Promise<ConversationSummary | null>;
+  remove(id: string, ownerId: string): Promise<boolean>;
+  appendMessages(id: string, ownerId: string, messages: NewMessage[]): Promise<void>;
+}
+
+export const MAX_TITLE_LENGTH = 80;
+
+// Derives a sidebar title from the first question of a conversation.
+export const titleFromMessage = (message: string) => {
+  const text = message.replace(/\s+/g, ' ').trim();
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 3)}...` : text || 'New Chat';
+};
+
+// --- BACKEND 1: Supabase ---
+// Tables are created by supabase/migrations/20261019000100_conversations.sql
+const toSummary = (row: any): ConversationSummary => ({
+  id: row.id,
+  ownerId: row.owner_id,
+  title: row.title,
+  agentType: row.agent_type,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toMessage = (row: any): StoredMessage => ({
+  id: row.id,
+  role: row.role,
+  content: row.content,
+  visualizations: row.visualizations || undefined,
+  sources: row.sources || undefined,
+  rejection: row.rejection || undefined,
+  tickets: row.tickets || undefined,
+  queries: row.queries || undefined,
+  serviceRequest: row.service_request || undefined,
+  createdAt: row.created_at,
+});
+
+// Conversation ids are uuid columns; anything else would make Postgres error
+// out, so it is reported as not found instead
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabaseStore: ConversationStore = {
+  async list(ownerId) {
+    const { data, error } = await getSupabase()
+      .from('conversations')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('updated_at', { ascending: false });
+    if (error) throw new Error(error.message);
+    return (data || []).map(toSummary);
+  },
+
+  async create({ title, agentType, ownerId }) {
+    const { data, error } = await getSupabase()
+      .from('conversations')
+      .insert({ title, agent_type: agentType, owner_id: ownerId })
+      .select('*')
+      .single();
+    if (error) throw new Error(error.message);
+    return toSummary(data);
+  },
+
+  async get(id, ownerId) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { data, error } = await getSupabase()
+      .from('conversations')
+      .select('*')
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+
+    const { data: rows, error: msgError } = await getSupabase()
+      .from('conversation_messages')
+      .select('*')
+      .eq('conversation_id', id)
+      .order('created_at', { ascending: true });
+    if (msgError) throw new Error(msgError.message);
+
+    return { ...toSummary(data), messages: (rows || []).map(toMessage) };
+  },
+
+  async rename(id, ownerId, title) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { data, error } = await getSupabase()
+      .from('conversations')
+      .update({ title, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .select('*')
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toSummary(data) : null;
+  },
+
+  async remove(id, ownerId) {
+    if (!UUID_PATTERN.test(id)) return false;
+    const { data, error } = await getSupabase()
+      .from('conversations')
+      .delete()
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .select('id');
+    if (error) throw new Error(error.message);
+    return (data || []).length > 0;
+  },
+
+  async appendMessages(id, ownerId, messages) {
+    if (!UUID_PATTERN.test(id)) throw new Error(`Conversation ${id} not found`);
+    const { data: owned, error: ownerError } = await getSupabase()
+      .from('conversations')
+      .select('id')
+      .eq('id', id)
+      .eq('owner_id', ownerId)
+      .maybeSingle();
+    if (ownerError) throw new Error(ownerError.message);
+    if (!owned) throw new Error(`Conversation ${id} not found`);
+
+    // Offset timestamps so a user/assistant pair written together keeps its order
+    const now = Date.now();
+    const { error } = await getSupabase().from('conversation_messages').insert(
+      messages.map((m, i) => ({
+        conversation_id: id,
+        role: m.role,
+        content: m.content,
+        visualizations: m.visualizations?.length ? m.visualizations : null,
+        sources: m.sources || null,
+        rejection: m.rejection || null,
+        tickets: m.tickets || null,
+        queries: m.queries?.length ? m.queries : null,
+        service_request: m.serviceRequest || null,
+        created_at: new Date(now + i).toISOString(),
+      }))
+    );
+    if (error) throw new Error(error.message);
+
+    await getSupabase().from('conversations').update({ updated_at: new Date().toISOString() }).eq('id', id);
+  },
+};
+
+// --- BACKEND 2: JSON File ---
+const FILE_STORE_PATH = process.env.CONVERSATION_STORE_PATH || path.join(process.cwd(), '.data', 'conversations.json');
+
+let fileQueue: Promise<unknown> = Promise.resolve();
+
+const readFileStore = async (): Promise<Conversation[]> => {
+  try {
+    return JSON.parse(await fs.readFile(FILE_STORE_PATH, 'utf8'));
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+};
+
+// Serializes read-modify-write cycles so concurrent requests don't drop writes.
+const updateFileStore = <T>(mutate: (all: Conversation[]) => T): Promise<T> => {
+  const run = fileQueue.then(async () => {
+    const all = await readFileStore();
+    const result = mutate(all);
+    await fs.mkdir(path.dirname(FILE_STORE_PATH), { recursive: true });
+    await fs.writeFile(FILE_STORE_PATH, JSON.stringify(all, null, 2));
+    return result;
+  });
+  fileQueue = run.catch(() => undefined);
+  return run;
+};
+
+const stripMessages = ({ messages, ...summary }: Conversation): ConversationSummary => summary;
+
+// Messages saved before answers could hold several visualizations
+type LegacyMessage = StoredMessage & { chartData?: Visualization | null; query?: QueryDetails };
+const upgradeMessage = ({ chartData, query, ...message }: LegacyMessage): StoredMessage => ({
+  ...message,
+  ...(chartData && !message.visualizations && { visualizations: [chartData] }),
+  ...(query && !message.queries && { queries: [query] }),
+});
+
+const fileStore: ConversationStore = {
+  async list(ownerId) {
+    const all = await readFileStore();
+    return all.filter(c => c.ownerId === ownerId).map(stripMessages).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  },
+
+  create({ title, agentType, ownerId }) {
+    const now = new Date().toISOString();
+    const conversation: Conversation = { id: randomUUID(), ownerId, title, agentType, createdAt: now, updatedAt: now, messages: [] };
+    return updateFileStore(all => {
+      all.push(conversation);
+      return stripMessages(conversation);
+    });
+  },
+
+  async get(id, ownerId) {
+    const all = await readFileStore();
+    const conversation = all.find(c => c.id === id && c.ownerId === ownerId);
+    return conversation ? { ...conversation, messages: conversation.messages.map(upgradeMessage) } : null;
+  },
+
+  rename(id, ownerId, title) {
+    return updateFileStore(all => {
+      const conversation = all.find(c => c.id === id && c.ownerId === ownerId);
+      if (!conversation) return null;
+      conversation.title = title;
+      conversation.updatedAt = new Date().toISOString();
+      return stripMessages(conversation);
+    });
+  },
+
+  remove(id, ownerId) {
+    return updateFileStore(all => {
+      const index = all.findIndex(c => c.id === id && c.ownerId === ownerId);
+      if (index === -1) return false;
+      all.splice(index, 1);
+      return true;
+    });
+  },
+
+  async appendMessages(id, ownerId, messages) {
+    await updateFileStore(all => {
+      const conversation = all.find(c => c.id === id && c.ownerId === ownerId);
+      if (!conversation) throw new Error(`Conversation ${id} not found`);
+      const now = new Date().toISOString();
+      conversation.messages.push(...messages.map(m => ({ ...m, id: randomUUID(), createdAt: now })));
+      conversation.updatedAt = now;
+    });
+  },
+};
+
+// --- SELECTION ---
+export function getConversationStore(): ConversationStore {
+  const backend = process.env.CONVERSATION_STORE || (process.env.SUPABASE_URL ? 'supabase' : 'file');
+  return backend === 'file' ? fileStore : supabaseStore;
+}
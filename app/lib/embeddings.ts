@@ -0,0 +1,163 @@
+// Embedding providers for retrieval.
+// Vectors must match the Pinecone index built by ingestion_pipeline.ipynb:
+// all-MiniLM-L6-v2, mean pooled and normalised, 384 dimensions.
+//
+//   EMBEDDING_PROVIDER=local         in-process model via @xenova/transformers (default)
+//   EMBEDDING_PROVIDER=huggingface   HuggingFace inference router (HUGGINGFACE_API_KEY)
+//   LOCAL_EMBEDDING_MODEL_DIR        pre-downloaded models, disables hub downloads
+//   EMBEDDING_CACHE_SIZE             query embeddings kept in memory (default 500, 0 = off)
+
+export const EMBEDDING_DIMENSIONS = 384;
+
+const LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const HF_ENDPOINT = 'https://router.huggingface.co/hf-inference/models/sentence-transformers/all-MiniLM-L6-v2/pipeline/feature-extraction';
+
+// --- TYPED FAILURES ---
+export type EmbeddingErrorCode =
+  | 'PROVIDER_UNAVAILABLE'   // model failed to load, missing credentials, network down
+  | 'REQUEST_FAILED'         // remote returned an error status
+  | 'INVALID_RESPONSE';      // output was not a vector of EMBEDDING_DIMENSIONS numbers
+
+export class EmbeddingError extends Error {
+  constructor(public code: EmbeddingErrorCode, public provider: string, message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const checkVectors = (provider: string, vectors: unknown, expected: number): number[][] => {
+  const valid = Array.isArray(vectors) && vectors.length === expected && vectors.every(v =>
+    Array.isArray(v) && v.length === EMBEDDING_DIMENSIONS && v.every(n => typeof n === 'number' && Number.isFinite(n))
+  );
+  if (!valid) throw new EmbeddingError('INVALID_RESPONSE', provider, `Expected ${expected} vector(s) of ${EMBEDDING_DIMENSIONS} dimensions`);
+  return vectors as number[][];
+};
+
+// --- PROVIDER 1: Local (in-process ONNX) ---
+// The model is loaded once per process; the first call downloads it unless
+// LOCAL_EMBEDDING_MODEL_DIR points at a local copy.
+let localPipeline: Promise<any> | null = null;
+
+const loadLocalPipeline = () => {
+  if (!localPipeline) {
+    localPipeline = import('@xenova/transformers').then(({ pipeline, env }) => {
+      if (process.env.LOCAL_EMBEDDING_MODEL_DIR) {
+        env.localModelPath = process.env.LOCAL_EMBEDDING_MODEL_DIR;
+        env.allowRemoteModels = false;
+      }
+      return pipeline('feature-extraction', LOCAL_MODEL);
+    });
+    // Don't cache a failed load; the next request retries
+    localPipeline.catch(() => { localPipeline = null; });
+  }
+  return localPipeline;
+};
+
+const localProvider: EmbeddingProvider = {
+  name: 'local',
+  async embed(texts) {
+    let extractor: any;
+    try {
+      extractor = await loadLocalPipeline();
+    } catch (e: any) {
+      throw new EmbeddingError('PROVIDER_UNAVAILABLE', 'local', `Could not load ${LOCAL_MODEL}: ${e?.message || e}`, e);
+    }
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return checkVectors('local', output.tolist(), texts.length);
+  },
+};
+
+// --- PROVIDER 2: HuggingFace inference router ---
+const huggingFaceProvider: EmbeddingProvider = {
+  name: 'huggingface',
+  async embed(texts) {
+    const apiKey = process.env.HUGGINGFACE_API_KEY;
+    if (!apiKey) throw new EmbeddingError('PROVIDER_UNAVAILABLE', 'huggingface', 'HUGGINGFACE_API_KEY is not set');
+
+    let response: Response;
+    try {
+      response = await fetch(HF_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ inputs: texts, options: { wait_for_model: true } }),
+      });
+    } catch (e: any) {
+      throw new EmbeddingError('PROVIDER_UNAVAILABLE', 'huggingface', e?.message || 'Network error', e);
+    }
+    if (!response.ok) {
+      throw new EmbeddingError('REQUEST_FAILED', 'huggingface', `HuggingFace returned ${response.status}: ${await response.text().catch(() => '')}`);
+    }
+
+    const result = await response.json().catch(() => null);
+    return checkVectors('huggingface', result, texts.length);
+  },
+};
+
+const PROVIDERS: Record<string, EmbeddingProvider> = {
+  local: localProvider,
+  huggingface: huggingFaceProvider,
+};
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const name = process.env.EMBEDDING_PROVIDER || 'local';
+  const provider = PROVIDERS[name];
+  if (!provider) throw new EmbeddingError('PROVIDER_UNAVAILABLE', name, `Unknown embedding provider "${name}"`);
+  return provider;
+}
+
+// --- QUERY CACHE (LRU) ---
+// Map keeps insertion order: re-inserting on hit moves a key to the end,
+// so the first key is always the least recently used.
+const queryCache = new Map<string, number[]>();
+
+const cacheKey = (provider: string, text: string) => `${provider}\u0000${text.trim().toLowerCase()}`;
+
+const cacheLimit = () => {
+  const limit = Number(process.env.EMBEDDING_CACHE_SIZE ?? 500);
+  return Number.isFinite(limit) && limit > 0 ? limit : 0;
+};
+
+// --- PUBLIC API ---
+// Embeds one search query, served from the LRU cache when possible.
+export async function embedQuery(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
+  const key = cacheKey(provider.name, text);
+
+  const cached = queryCache.get(key);
+  if (cached) {
+    queryCache.delete(key);
+    queryCache.set(key, cached);
+    return cached;
+  }
+
+  const [vector] = await embedTexts([text], provider);
+
+  const limit = cacheLimit();
+  if (limit) {
+    queryCache.set(key, vector);
+    while (queryCache.size > limit) queryCache.delete(queryCache.keys().next().value);
+  }
+  return vector;
+}
+
+// Embeds documents in batches (ingestion). Not cached.
+export async function embedTexts(texts: string[], provider = getEmbeddingProvider(), batchSize = 32): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    try {
+      vectors.push(...await provider.embed(texts.slice(i, i + batchSize)));
+    } catch (e: any) {
+      if (e instanceof EmbeddingError) throw e;
+      throw new EmbeddingError('PROVIDER_UNAVAILABLE', provider.name, e?.message || 'Embedding failed', e);
+    }
+  }
+  return vectors;
+}
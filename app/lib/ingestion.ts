@@ -0,0 +1,310 @@
+// Knowledge-base ingestion: load a document, split it into chunks, embed the
+// chunks and upsert them into the vector store. Used by `npm run ingest` and
+// the admin knowledge console.
+
+import { createHash } from 'crypto';
+import { embedTexts } from './embeddings';
+import { chunkId, getVectorStore, VectorMetadata, VectorRecord } from './vectorStore';
+import { getKnowledgeSourceStore, DocumentFormat, KnowledgeAgent, KnowledgeSource, KNOWLEDGE_AGENTS } from './knowledgeSources';
+
+// --- TYPES ---
+export interface ChunkingOptions {
+  chunkSize: number;      // max characters per chunk
+  chunkOverlap: number;   // characters repeated between neighbouring chunks
+}
+
+// Matches the notebook's RecursiveCharacterTextSplitter(800, 100)
+export const DEFAULT_CHUNKING: ChunkingOptions = { chunkSize: 800, chunkOverlap: 100 };
+
+// A page (PDF), a row (CSV) or the whole file (Markdown, HTML)
+interface DocumentSection {
+  text: string;
+  page?: number;
+}
+
+export interface DocumentChunk {
+  text: string;
+  page?: number;
+}
+
+// Bump when loading or chunking changes so every source is re-indexed.
+const PIPELINE_VERSION = 1;
+
+const FORMAT_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  csv: 'csv',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+};
+
+export const formatFromFilename = (filename: string): DocumentFormat | null =>
+  FORMAT_BY_EXTENSION[filename.split('.').pop()?.toLowerCase() || ''] || null;
+
+// --- LOADER 1: PDF (one section per page) ---
+async function loadPdf(data: Uint8Array): Promise<DocumentSection[]> {
+  const { extractText } = await import('unpdf');
+  const { text } = await extractText(new Uint8Array(data), { mergePages: false });
+  return text.map((pageText, i) => ({ text: pageText, page: i + 1 }));
+}
+
+// --- LOADER 2: CSV (one section per row, "column: value | ...") ---
+const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+function loadCsv(text: string): DocumentSection[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  return rows.map(row => ({
+    text: row
+      .map((value, i) => value.trim() && `${header[i]?.trim() || `column ${i + 1}`}: ${value.trim()}`)
+      .filter(Boolean)
+      .join(' | '),
+  }));
+}
+
+// --- LOADER 3: Markdown (front matter dropped) ---
+const loadMarkdown = (text: string): DocumentSection[] =>
+  [{ text: text.replace(/^---\n[\s\S]*?\n---\n/, '') }];
+
+// --- LOADER 4: HTML (visible text only) ---
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©',
+};
+
+const loadHtml = (html: string): DocumentSection[] => [{
+  text: html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/?(p|div|section|article|li|tr|h[1-6]|br|hr|table|ul|ol|header|footer|main)\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1]?.toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n'),
+}];
+
+export async function loadDocument(data: Uint8Array, format: DocumentFormat): Promise<DocumentSection[]> {
+  if (format === 'pdf') return loadPdf(data);
+  const text = new TextDecoder().decode(data);
+  if (format === 'csv') return loadCsv(text);
+  if (format === 'html') return loadHtml(text);
+  return loadMarkdown(text);
+}
+
+// --- CHUNKING ---
+// Recursive character splitting: split on the coarsest separator that yields
+// pieces under chunkSize, then merge neighbouring pieces up to chunkSize,
+// carrying up to chunkOverlap characters into the next chunk.
+const SEPARATORS = ['\n\n', '\n', '. ', ' ', ''];
+
+const splitRecursive = (text: string, separators: string[], chunkSize: number): string[] => {
+  if (text.length <= chunkSize) return [text];
+  const [separator, ...finer] = separators;
+  if (!separator) return Array.from(text);
+
+  const parts = text.split(separator);
+  return parts.flatMap((part, i) => {
+    const piece = i < parts.length - 1 ? part + separator : part;
+    return piece.length <= chunkSize ? [piece] : splitRecursive(piece, finer, chunkSize);
+  });
+};
+
+export function splitText(text: string, { chunkSize, chunkOverlap }: ChunkingOptions): string[] {
+  const chunks: string[] = [];
+  let window: string[] = [];
+  let length = 0;
+
+  for (const piece of splitRecursive(text, SEPARATORS, chunkSize)) {
+    if (length + piece.length > chunkSize && window.length) {
+      chunks.push(window.join(''));
+      // Keep the tail of this chunk as overlap, as long as the next piece still fits
+      while (window.length && (length > chunkOverlap || length + piece.length > chunkSize)) {
+        length -= window.shift()!.length;
+      }
+    }
+    window.push(piece);
+    length += piece.length;
+  }
+  if (window.length) chunks.push(window.join(''));
+
+  return chunks.map(c => c.trim()).filter(Boolean);
+}
+
+// CSV rows are already record-sized and are kept whole, like the notebook's DataFrameLoader.
+export function chunkDocument(sections: DocumentSection[], format: DocumentFormat, chunking: ChunkingOptions): DocumentChunk[] {
+  return sections.flatMap(section => {
+    const texts = format === 'csv' ? [section.text.trim()].filter(Boolean) : splitText(section.text, chunking);
+    return texts.map(text => (section.page ? { text, page: section.page } : { text }));
+  });
+}
+
+// --- CONTENT HASH ---
+// Covers everything that affects the stored chunks, so a changed agent tag or
+// chunk size re-indexes the source just like changed file contents.
+export const hashContent = (data: Uint8Array, agent: KnowledgeAgent, chunking: ChunkingOptions) =>
+  createHash('sha256')
+    .update(data)
+    .update(JSON.stringify({ agent, chunkSize: chunking.chunkSize, chunkOverlap: chunking.chunkOverlap, v: PIPELINE_VERSION }))
+    .digest('hex');
+
+// --- INDEX / REMOVE ---
+export interface IndexDocumentInput {
+  source: string;
+  agent: KnowledgeAgent;
+  format: DocumentFormat;
+  origin: KnowledgeSource['origin'];
+  data: Uint8Array;
+  chunking?: ChunkingOptions;
+}
+
+/**
+ * Replaces every chunk of `source` with freshly embedded chunks of `data`,
+ * keeps the original file and records the source in the registry.
+ */
+export async function indexDocument(input: IndexDocumentInput): Promise<KnowledgeSource> {
+  const chunking = input.chunking || DEFAULT_CHUNKING;
+  const chunks = chunkDocument(await loadDocument(input.data, input.format), input.format, chunking);
+  if (!chunks.length) throw new Error(`No text could be extracted from ${input.source}`);
+
+  const vectors = await embedTexts(chunks.map(c => c.text));
+  const records: VectorRecord[] = chunks.map((chunk, i) => {
+    const metadata: VectorMetadata = { text: chunk.text, source: input.source, agent: input.agent, chunk: i };
+    if (chunk.page) metadata.page = chunk.page;
+    return { id: chunkId(input.source, i), values: vectors[i], metadata };
+  });
+
+  const store = getVectorStore();
+  await store.deleteBySource(input.source);
+  await store.upsert(records);
+
+  const registry = getKnowledgeSourceStore();
+  await registry.saveFile(input.source, input.data);
+  const record: KnowledgeSource = {
+    source: input.source,
+    agent: input.agent,
+    format: input.format,
+    origin: input.origin,
+    contentHash: hashContent(input.data, input.agent, chunking),
+    chunkSize: chunking.chunkSize,
+    chunkOverlap: chunking.chunkOverlap,
+    chunkCount: records.length,
+    indexedAt: new Date().toISOString(),
+  };
+  await registry.save(record);
+  return record;
+}
+
+// Re-indexes a registered source from its kept original with the same settings.
+export async function reindexDocument(source: string): Promise<KnowledgeSource> {
+  const registry = getKnowledgeSourceStore();
+  const record = await registry.get(source);
+  if (!record) throw new Error(`Unknown source "${source}"`);
+  const data = await registry.readFile(source);
+  if (!data) throw new Error(`The original file for "${source}" is not stored; re-upload it or re-run the ingestion`);
+
+  return indexDocument({
+    source,
+    agent: record.agent,
+    format: record.format,
+    origin: record.origin,
+    data,
+    chunking: { chunkSize: record.chunkSize, chunkOverlap: record.chunkOverlap },
+  });
+}
+
+export async function removeDocument(source: string): Promise<void> {
+  await getVectorStore().deleteBySource(source);
+  const registry = getKnowledgeSourceStore();
+  await registry.removeFile(source);
+  await registry.remove(source);
+}
+
+// --- UNTRACKED SOURCES ---
+// Chunks written by ingestion_pipeline.ipynb carry `source` and `agent`
+// metadata but have no registry entry. Registering them puts them in the
+// admin console and the keyword index. Their originals were never kept, so
+// they are re-indexed by uploading the file or adding it to the manifest.
+
+/** Registry records for vector-store sources the registry doesn't know yet. */
+export async function findUntrackedSources(): Promise<KnowledgeSource[]> {
+  const known = new Set((await getKnowledgeSourceStore().list()).map(s => s.source));
+  const records: KnowledgeSource[] = [];
+
+  for (const stored of await getVectorStore().listSources()) {
+    if (known.has(stored.source)) continue;
+    const format = formatFromFilename(stored.source);
+    const agent = stored.agent as KnowledgeAgent;
+    if (!format || !KNOWLEDGE_AGENTS.includes(agent)) {
+      console.warn(`[Knowledge] Skipping untracked source ${stored.source}: unknown format or agent "${stored.agent}"`);
+      continue;
+    }
+    records.push({
+      source: stored.source,
+      agent,
+      format,
+      origin: 'notebook',
+      contentHash: '',                  // never matches, so the manifest re-indexes it
+      chunkSize: DEFAULT_CHUNKING.chunkSize,
+      chunkOverlap: DEFAULT_CHUNKING.chunkOverlap,
+      chunkCount: stored.chunkCount,
+      indexedAt: new Date().toISOString(),
+    });
+  }
+  return records;
+}
+
+export async function registerUntrackedSources(): Promise<KnowledgeSource[]> {
+  const records = await findUntrackedSources();
+  const registry = getKnowledgeSourceStore();
+  for (const record of records) await registry.save(record);
+  if (records.length) console.log(`[Knowledge] Registered ${records.length} sources found in the vector store`);
+  return records;
+}
+
+// Once per process; the admin console and keyword index call this before reading the registry
+let untrackedRegistration: Promise<KnowledgeSource[]> | null = null;
+
+export function registerUntrackedSourcesOnce(): Promise<KnowledgeSource[]> {
+  if (!untrackedRegistration) {
+    untrackedRegistration = registerUntrackedSources();
+    // Try again next time if the vector store or registry was unavailable
+    untrackedRegistration.catch(() => { untrackedRegistration = null; });
+  }
+  return untrackedRegistration;
+}
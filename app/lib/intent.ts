@@ -0,0 +1,96 @@
+// Intent classification for /api/chat.
+// A few-shot LLM classifier picks the SQL (analytics) or vector (documents)
+// path with a confidence score; the keyword regexes are only used when the
+// classifier fails. Low-confidence results are answered from both paths.
+
+import type { CompleteFn } from './conversation';
+import { TICKET_ID_PATTERN } from './tickets';
+
+export type IntentRoute = 'sql' | 'vector';
+
+export interface IntentResult {
+  route: IntentRoute;
+  confidence: number;   // 0..1
+  source: 'llm' | 'regex' | 'ticket';
+  reason?: string;
+}
+
+// Below this confidence the router queries both paths and merges the answers.
+export const HYBRID_CONFIDENCE_THRESHOLD = 0.65;
+
+// --- FALLBACK PATTERNS ---
+// 1. SQL INTENT
+const SQL_INTENT_PATTERN = /\b(count|how many|total|average|avg|sum|trend|stats|statistics|plot|graph|chart|visualize|compare|highest|lowest|usage|kwh|consumption|breakdown|reasons)\b/i;
+
+// 2. VECTOR OVERRIDE
+const VECTOR_OVERRIDE_PATTERN = /\b(rebate|incentive|program|dishwasher|washing|dryer|appliance|how to|ways to|reduce|save|contact|manager|location|address|phone|email|process|steps|apply|permit)\b/i;
+
+export function classifyWithRegex(question: string): IntentResult {
+  const isAnalytics = SQL_INTENT_PATTERN.test(question);
+  const isVectorOverride = VECTOR_OVERRIDE_PATTERN.test(question);
+  const route: IntentRoute = isAnalytics && !isVectorOverride ? 'sql' : 'vector';
+  // Both or neither pattern matching means the keywords are not decisive
+  const confidence = isAnalytics !== isVectorOverride ? 0.7 : 0.5;
+  return { route, confidence, source: 'regex' };
+}
+
+// --- LLM CLASSIFIER ---
+const CLASSIFIER_PROMPT = `
+  You route questions for the City of Rancho Cordova assistant to one of two data sources.
+
+  "sql": Aggregates or lookups over the city's operational tables:
+    - tickets (call center log: call_id, customer_id, created_at, category, agent, resolution)
+    - energy_usage (customer_id, account_type, month_date, consumption_kwh)
+    - meter_readings (account_id, reading_time, kwh)
+    Counts, totals, averages, trends, rankings and charts of calls, tickets or energy consumption.
+
+  "vector": Answers found in published documents: SMUD rate plans, rebates and incentive programs,
+    energy saving tips, permits and city processes, departments, contacts, addresses, hours.
+    This includes counting or listing things described in documents (e.g. programs, steps).
+
+  Examples:
+  - "How many calls did we get about billing last month?" -> {"route":"sql","confidence":0.95}
+  - "Plot residential consumption by month for 2024" -> {"route":"sql","confidence":0.97}
+  - "Which ticket category has the highest volume?" -> {"route":"sql","confidence":0.9}
+  - "How many rebate programs are there?" -> {"route":"vector","confidence":0.85}
+  - "Usage tips for lowering my summer bill" -> {"route":"vector","confidence":0.9}
+  - "What are the Time-of-Day peak hours?" -> {"route":"vector","confidence":0.95}
+  - "How do I apply for a building permit?" -> {"route":"vector","confidence":0.97}
+  - "Is my average usage higher than what SMUD considers typical?" -> {"route":"sql","confidence":0.5}
+
+  Confidence is how sure you are that one source alone can answer the question.
+  Respond with ONLY a JSON object: {"route":"sql"|"vector","confidence":<0..1>,"reason":"<max 10 words>"}
+`;
+
+const parseClassification = (text: string): IntentResult | null => {
+  const match = text.match(/\{[\s\S]*?\}/);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[0]);
+    if (parsed.route !== 'sql' && parsed.route !== 'vector') return null;
+    const confidence = Math.min(1, Math.max(0, Number(parsed.confidence)));
+    if (Number.isNaN(confidence)) return null;
+    return { route: parsed.route, confidence, source: 'llm', reason: parsed.reason };
+  } catch (e) {
+    return null;
+  }
+};
+
+export async function classifyIntent(question: string, agentType: string, complete: CompleteFn): Promise<IntentResult> {
+  // Ticket IDs are a format, not an intent: always answered from the database
+  if (TICKET_ID_PATTERN.test(question)) return { route: 'sql', confidence: 1, source: 'ticket' };
+
+  try {
+    const text = await complete([
+      { role: 'system', content: CLASSIFIER_PROMPT },
+      { role: 'user', content: `Agent: ${agentType === 'energy' ? 'Energy Advisor' : 'City Services'}\nQuestion: ${question}` }
+    ], { temperature: 0 });
+
+    const result = parseClassification(text);
+    if (result) return result;
+    console.warn("[Intent] Unparseable classifier output, using regex fallback:", text);
+  } catch (e) {
+    console.error("Intent Classifier Error:", e);
+  }
+  return classifyWithRegex(question);
+}
@@ -0,0 +1,112 @@
+// BM25 keyword index over the knowledge-base chunks, one per agent.
+// Built in-process from the vector store (every registered source's chunks,
+// including ones the notebook indexed before the registry existed) and rebuilt
+// when the source registry changes, so it always covers the same chunks as
+// vector search. Catches exact terms embeddings blur: form numbers,
+// department names, phone numbers.
+
+import { getKnowledgeSourceStore, KnowledgeAgent } from './knowledgeSources';
+import { getVectorStore, StoredChunk } from './vectorStore';
+import { registerUntrackedSourcesOnce } from './ingestion';
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+  metadata: StoredChunk['metadata'];
+}
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// How often the registry is checked for changes
+const REFRESH_INTERVAL_MS = 60_000;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by can do does for from how i in is it me my of on or our the their there this to was what when where which who why will with you your'.split(' ')
+);
+
+// Lowercased alphanumeric tokens with a light plural strip ("permits" -> "permit")
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFKD').match(/[a-z0-9]+/g) || [])
+    .filter(token => !STOPWORDS.has(token))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+interface Bm25Index {
+  chunks: StoredChunk[];
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+export function buildIndex(chunks: StoredChunk[]): Bm25Index {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = chunks.map(chunk => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokenize(chunk.metadata.text)) frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    frequencies.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    return frequencies;
+  });
+  const lengths = termFrequencies.map(f => Array.from(f.values()).reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+  return { chunks, termFrequencies, lengths, averageLength, documentFrequency };
+}
+
+export function searchIndex(index: Bm25Index, query: string, topK: number): KeywordMatch[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+  if (!terms.length || !total) return [];
+
+  const scored: KeywordMatch[] = [];
+  index.termFrequencies.forEach((frequencies, i) => {
+    let score = 0;
+    for (const term of terms) {
+      const tf = frequencies.get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * index.lengths[i] / (index.averageLength || 1)));
+    }
+    if (score > 0) scored.push({ id: index.chunks[i].id, score, metadata: index.chunks[i].metadata });
+  });
+
+  return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+// --- CACHE (per agent) ---
+interface CachedIndex {
+  signature: string;
+  checkedAt: number;
+  index: Promise<Bm25Index>;
+}
+
+const cache = new Map<KnowledgeAgent, CachedIndex>();
+
+async function getIndex(agent: KnowledgeAgent): Promise<Bm25Index> {
+  const cached = cache.get(agent);
+  if (cached && Date.now() - cached.checkedAt < REFRESH_INTERVAL_MS) return cached.index;
+
+  await registerUntrackedSourcesOnce().catch(e => console.error("Keyword Index Backfill Error:", e));
+  const sources = await getKnowledgeSourceStore().list(agent);
+  const signature = sources.map(s => `${s.source}@${s.indexedAt}`).join('|');
+  if (cached && cached.signature === signature) {
+    cached.checkedAt = Date.now();
+    return cached.index;
+  }
+
+  const index = (async () => {
+    const store = getVectorStore();
+    const chunks = (await Promise.all(sources.map(s => store.listBySource(s.source)))).flat();
+    console.log(`[Keyword Index] Built ${agent} index: ${chunks.length} chunks from ${sources.length} sources`);
+    return buildIndex(chunks);
+  })();
+  cache.set(agent, { signature, checkedAt: Date.now(), index });
+  // Don't keep a failed build around
+  index.catch(() => cache.delete(agent));
+  return index;
+}
+
+export async function keywordSearch(agent: KnowledgeAgent, query: string, topK: number): Promise<KeywordMatch[]> {
+  return searchIndex(await getIndex(agent), query, topK);
+}
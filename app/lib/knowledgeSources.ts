@@ -0,0 +1,181 @@
+// Registry of documents indexed into the vector store: which agent a source
+// belongs to, its content hash (for incremental ingestion) and chunk count.
+// The original files are kept too, so a source can be re-indexed later.
+// Backend is chosen with KNOWLEDGE_SOURCE_STORE: 'supabase' (default when
+// SUPABASE_URL is set) or 'file' (JSON file, for local development).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSupabase } from './supabase';
+
+// --- TYPES ---
+export const KNOWLEDGE_AGENTS = ['energy', 'customer'] as const;
+export type KnowledgeAgent = typeof KNOWLEDGE_AGENTS[number];
+
+export type DocumentFormat = 'pdf' | 'csv' | 'markdown' | 'html';
+
+export interface KnowledgeSource {
+  source: string;                   // file name, also the `source` metadata on each chunk
+  agent: KnowledgeAgent;
+  format: DocumentFormat;
+  origin: 'manifest' | 'upload' | 'notebook';   // manifest sources are pruned by `npm run ingest`;
+                                                // notebook ones were found in the vector store
+  contentHash: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkCount: number;
+  indexedAt: string;
+}
+
+export interface KnowledgeSourceStore {
+  list(agent?: KnowledgeAgent): Promise<KnowledgeSource[]>;
+  get(source: string): Promise<KnowledgeSource | null>;
+  save(record: KnowledgeSource): Promise<void>;
+  remove(source: string): Promise<void>;
+  // Original file contents; null if the source was indexed before files were kept
+  saveFile(source: string, data: Uint8Array): Promise<void>;
+  readFile(source: string): Promise<Uint8Array | null>;
+  removeFile(source: string): Promise<void>;
+}
+
+// --- BACKEND 1: Supabase ---
+// Table is created by supabase/migrations/20261019000600_knowledge_sources.sql,
+// the storage bucket by 20261019000700_knowledge_source_files.sql
+const STORAGE_BUCKET = 'knowledge-sources';
+
+const toRecord = (row: any): KnowledgeSource => ({
+  source: row.source,
+  agent: row.agent,
+  format: row.format,
+  origin: row.origin,
+  contentHash: row.content_hash,
+  chunkSize: row.chunk_size,
+  chunkOverlap: row.chunk_overlap,
+  chunkCount: row.chunk_count,
+  indexedAt: row.indexed_at,
+});
+
+const supabaseStore: KnowledgeSourceStore = {
+  async list(agent) {
+    let query = getSupabase().from('knowledge_sources').select('*').order('source');
+    if (agent) query = query.eq('agent', agent);
+    const { data, error } = await query;
+    if (error) throw new Error(error.message);
+    return (data || []).map(toRecord);
+  },
+
+  async get(source) {
+    const { data, error } = await getSupabase().from('knowledge_sources').select('*').eq('source', source).maybeSingle();
+    if (error) throw new Error(error.message);
+    return data ? toRecord(data) : null;
+  },
+
+  async save(record) {
+    const { error } = await getSupabase().from('knowledge_sources').upsert({
+      source: record.source,
+      agent: record.agent,
+      format: record.format,
+      origin: record.origin,
+      content_hash: record.contentHash,
+      chunk_size: record.chunkSize,
+      chunk_overlap: record.chunkOverlap,
+      chunk_count: record.chunkCount,
+      indexed_at: record.indexedAt,
+    });
+    if (error) throw new Error(error.message);
+  },
+
+  async remove(source) {
+    const { error } = await getSupabase().from('knowledge_sources').delete().eq('source', source);
+    if (error) throw new Error(error.message);
+  },
+
+  async saveFile(source, data) {
+    const { error } = await getSupabase().storage.from(STORAGE_BUCKET).upload(source, data, { upsert: true });
+    if (error) throw new Error(error.message);
+  },
+
+  async readFile(source) {
+    const { data, error } = await getSupabase().storage.from(STORAGE_BUCKET).download(source);
+    if (error) return null;
+    return new Uint8Array(await data.arrayBuffer());
+  },
+
+  async removeFile(source) {
+    const { error } = await getSupabase().storage.from(STORAGE_BUCKET).remove([source]);
+    if (error) throw new Error(error.message);
+  },
+};
+
+// --- BACKEND 2: JSON File ---
+const FILE_STORE_PATH = process.env.KNOWLEDGE_SOURCE_STORE_PATH || path.join(process.cwd(), '.data', 'knowledge-sources.json');
+const FILES_DIR = process.env.KNOWLEDGE_FILES_DIR || path.join(process.cwd(), '.data', 'knowledge-files');
+
+// Source names are file names; never let one escape FILES_DIR
+const storedFilePath = (source: string) => path.join(FILES_DIR, path.basename(source));
+
+let fileQueue: Promise<unknown> = Promise.resolve();
+
+const readFileStore = async (): Promise<KnowledgeSource[]> => {
+  try {
+    return JSON.parse(await fs.readFile(FILE_STORE_PATH, 'utf8'));
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+};
+
+// Serializes read-modify-write cycles so concurrent requests don't drop writes.
+const updateFileStore = (mutate: (all: KnowledgeSource[]) => KnowledgeSource[]): Promise<void> => {
+  const run = fileQueue.then(async () => {
+    const all = mutate(await readFileStore());
+    await fs.mkdir(path.dirname(FILE_STORE_PATH), { recursive: true });
+    await fs.writeFile(FILE_STORE_PATH, JSON.stringify(all, null, 2));
+  });
+  fileQueue = run.catch(() => undefined);
+  return run;
+};
+
+const fileStore: KnowledgeSourceStore = {
+  async list(agent) {
+    const all = await readFileStore();
+    return all.filter(s => !agent || s.agent === agent).sort((a, b) => a.source.localeCompare(b.source));
+  },
+
+  async get(source) {
+    const all = await readFileStore();
+    return all.find(s => s.source === source) || null;
+  },
+
+  save(record) {
+    return updateFileStore(all => [...all.filter(s => s.source !== record.source), record]);
+  },
+
+  remove(source) {
+    return updateFileStore(all => all.filter(s => s.source !== source));
+  },
+
+  async saveFile(source, data) {
+    await fs.mkdir(FILES_DIR, { recursive: true });
+    await fs.writeFile(storedFilePath(source), data);
+  },
+
+  async readFile(source) {
+    try {
+      return new Uint8Array(await fs.readFile(storedFilePath(source)));
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+  },
+
+  async removeFile(source) {
+    await fs.rm(storedFilePath(source), { force: true });
+  },
+};
+
+// --- SELECTION ---
+export function getKnowledgeSourceStore(): KnowledgeSourceStore {
+  const backend = process.env.KNOWLEDGE_SOURCE_STORE || (process.env.SUPABASE_URL ? 'supabase' : 'file');
+  return backend === 'file' ? fileStore : supabaseStore;
+}
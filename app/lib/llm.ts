@@ -0,0 +1,322 @@
+// LLM provider layer for /api/chat.
+// Every call names a pipeline stage; each stage maps to a "provider:model"
+// spec from the environment, with an optional fallback used when the
+// primary fails (e.g. Groq rate limiting).
+//
+//   LLM_MODEL=groq:llama-3.3-70b-versatile      default for every stage
+//   LLM_SQL_MODEL / LLM_CHART_MODEL / LLM_ANSWER_MODEL / LLM_ROUTING_MODEL / LLM_AGENT_MODEL
+//   LLM_FALLBACK_MODEL=openai:gpt-4o-mini       tried once if the primary fails
+//
+// Providers: groq, openai (OPENAI_API_KEY, optional OPENAI_BASE_URL),
+// local (LOCAL_LLM_BASE_URL, any OpenAI-compatible server), fake (tests/offline).
+// completeWithTools adds function calling (the 'agent' stage); the model must support it.
+
+import Groq from 'groq-sdk';
+import { createOpenAI } from '@ai-sdk/openai';
+import { generateText, streamText, jsonSchema, LanguageModel, CoreMessage } from 'ai';
+import type { JSONSchema7 } from 'json-schema';
+
+// --- TYPES ---
+export type LLMStage = 'routing' | 'sql' | 'chart' | 'answer' | 'agent';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+}
+
+// Function calling: tools are described with JSON Schema; arguments come back as raw JSON
+export interface LLMToolSpec {
+  name: string;
+  description: string;
+  parameters: JSONSchema7;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export type LLMToolMessage =
+  | LLMMessage
+  | { role: 'assistant'; content: string; toolCalls: LLMToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface LLMToolRequest {
+  model: string;
+  messages: LLMToolMessage[];
+  tools: LLMToolSpec[];
+  temperature?: number;
+}
+
+// No tool calls means `text` is the final answer
+export interface LLMToolReply {
+  text: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<string>;
+  stream(request: LLMRequest): AsyncIterable<string>;
+  completeWithTools(request: LLMToolRequest): Promise<LLMToolReply>;
+}
+
+const DEFAULT_MODEL_SPEC = 'groq:llama-3.3-70b-versatile';
+
+const STAGE_ENV: Record<LLMStage, string> = {
+  routing: 'LLM_ROUTING_MODEL',
+  sql: 'LLM_SQL_MODEL',
+  chart: 'LLM_CHART_MODEL',
+  answer: 'LLM_ANSWER_MODEL',
+  agent: 'LLM_AGENT_MODEL',
+};
+
+// --- PROVIDER 1: Groq ---
+function createGroqProvider(): LLMProvider {
+  const groq = new Groq({ apiKey: process.env.GROQ_API_KEY });
+  return {
+    name: 'groq',
+    async complete({ model, messages, temperature }) {
+      const completion = await groq.chat.completions.create({ model, messages, temperature });
+      return completion.choices[0]?.message?.content || '';
+    },
+    async *stream({ model, messages, temperature }) {
+      const stream = await groq.chat.completions.create({ model, messages, temperature, stream: true });
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+    async completeWithTools({ model, messages, tools, temperature }) {
+      const completion = await groq.chat.completions.create({
+        model,
+        temperature,
+        messages: messages.map(m =>
+          m.role === 'tool' ? { role: 'tool', tool_call_id: m.toolCallId, name: m.name, content: m.content }
+          : 'toolCalls' in m ? {
+              role: 'assistant',
+              content: m.content,
+              tool_calls: m.toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } }))
+            }
+          : m
+        ),
+        ...(tools.length > 0 && {
+          tools: tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: { ...t.parameters } } }))
+        }),
+      });
+      const message = completion.choices[0]?.message;
+      return {
+        text: message?.content || '',
+        toolCalls: (message?.tool_calls || []).map((c, i) => ({
+          id: c.id || `call_${i}`,
+          name: c.function?.name || '',
+          arguments: c.function?.arguments || '{}',
+        })),
+      };
+    },
+  };
+}
+
+// Tool arguments as an object. Malformed JSON (e.g. from a primary model
+// before a fallback) is kept as the raw string rather than failing the request.
+const parseToolArguments = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch (e) {
+    return { raw };
+  }
+};
+
+// --- PROVIDER 2: OpenAI-compatible (OpenAI itself or a local server) ---
+function createOpenAICompatibleProvider(name: string, settings: Parameters<typeof createOpenAI>[0]): LLMProvider {
+  const openai = createOpenAI(settings);
+  const languageModel = (model: string): LanguageModel => openai(model);
+  return {
+    name,
+    async complete({ model, messages, temperature }) {
+      const { text } = await generateText({ model: languageModel(model), messages, temperature });
+      return text;
+    },
+    async *stream({ model, messages, temperature }) {
+      const result = await streamText({ model: languageModel(model), messages, temperature });
+      for await (const text of result.textStream) {
+        if (text) yield text;
+      }
+    },
+    async completeWithTools({ model, messages, tools, temperature }) {
+      // No `execute`: the SDK returns the calls and the caller runs them
+      const { text, toolCalls } = await generateText({
+        model: languageModel(model),
+        temperature,
+        messages: messages.map((m): CoreMessage =>
+          m.role === 'tool' ? { role: 'tool', content: [{ type: 'tool-result', toolCallId: m.toolCallId, toolName: m.name, result: m.content }] }
+          : 'toolCalls' in m ? {
+              role: 'assistant',
+              content: [
+                ...(m.content ? [{ type: 'text' as const, text: m.content }] : []),
+                ...m.toolCalls.map(c => ({ type: 'tool-call' as const, toolCallId: c.id, toolName: c.name, args: parseToolArguments(c.arguments) })),
+              ]
+            }
+          : m
+        ),
+        tools: Object.fromEntries(tools.map(t => [t.name, { description: t.description, parameters: jsonSchema(t.parameters) }])),
+      });
+      return {
+        text,
+        toolCalls: toolCalls.map(c => ({ id: c.toolCallId, name: c.toolName, arguments: JSON.stringify(c.args) })),
+      };
+    },
+  };
+}
+
+// --- PROVIDER 3: Fake (deterministic, no network) ---
+// The responder maps a request to its reply; the default echoes the last user message.
+// With tools, a reply of {"toolCalls":[{"name":...,"arguments":{...}}]} is read as tool calls.
+export type FakeResponder = (request: LLMRequest) => string;
+
+const defaultFakeResponder: FakeResponder = ({ model, messages }) => {
+  const lastUser = [...messages].reverse().find(m => m.role === 'user');
+  return `[${model}] ${lastUser?.content || ''}`.trim();
+};
+
+export function createFakeProvider(responder: FakeResponder = defaultFakeResponder): LLMProvider {
+  return {
+    name: 'fake',
+    async complete(request) {
+      return responder(request);
+    },
+    async *stream(request) {
+      // Word-sized chunks, like a real token stream
+      for (const piece of responder(request).match(/\S+\s*|\s+/g) || []) yield piece;
+    },
+    async completeWithTools({ model, messages, temperature }) {
+      // Tool results are shown to the responder as user turns
+      const text = responder({
+        model,
+        temperature,
+        messages: messages.map(m => m.role === 'tool' ? { role: 'user', content: `[${m.name}] ${m.content}` } : { role: m.role, content: m.content }),
+      });
+      try {
+        const parsed = JSON.parse(text);
+        if (Array.isArray(parsed?.toolCalls)) {
+          return {
+            text: '',
+            toolCalls: parsed.toolCalls.map((c: any, i: number) => ({ id: `fake_${i}`, name: c.name, arguments: JSON.stringify(c.arguments || {}) })),
+          };
+        }
+      } catch (e) {
+        // Plain text: the final answer
+      }
+      return { text, toolCalls: [] };
+    },
+  };
+}
+
+// --- REGISTRY ---
+const providers = new Map<string, LLMProvider>();
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+  groq: createGroqProvider,
+  openai: () => createOpenAICompatibleProvider('openai', {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.OPENAI_BASE_URL,
+    compatibility: process.env.OPENAI_BASE_URL ? 'compatible' : 'strict',
+  }),
+  local: () => createOpenAICompatibleProvider('local', {
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+    compatibility: 'compatible',
+  }),
+  fake: () => createFakeProvider(),
+};
+
+export function getProvider(name: string): LLMProvider {
+  if (!providers.has(name)) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) throw new Error(`Unknown LLM provider "${name}"`);
+    providers.set(name, factory());
+  }
+  return providers.get(name)!;
+}
+
+// Replaces a provider (e.g. a scripted fake in tests). Pass null to restore the default.
+export function setProvider(name: string, provider: LLMProvider | null) {
+  if (provider) providers.set(name, provider);
+  else providers.delete(name);
+}
+
+// "provider:model" -> parts; a bare model name means Groq.
+const parseModelSpec = (spec: string) => {
+  const separator = spec.indexOf(':');
+  return separator === -1
+    ? { provider: 'groq', model: spec }
+    : { provider: spec.slice(0, separator), model: spec.slice(separator + 1) };
+};
+
+export function resolveStage(stage: LLMStage) {
+  const spec = process.env[STAGE_ENV[stage]] || process.env.LLM_MODEL || DEFAULT_MODEL_SPEC;
+  const fallback = process.env.LLM_FALLBACK_MODEL;
+  return {
+    primary: parseModelSpec(spec),
+    fallback: fallback && fallback !== spec ? parseModelSpec(fallback) : null,
+  };
+}
+
+// --- PUBLIC API ---
+export async function complete(
+  stage: LLMStage,
+  messages: LLMMessage[],
+  options: { temperature?: number } = {}
+): Promise<string> {
+  const { primary, fallback } = resolveStage(stage);
+  try {
+    return await getProvider(primary.provider).complete({ model: primary.model, messages, ...options });
+  } catch (e) {
+    if (!fallback) throw e;
+    console.warn(`[LLM] ${primary.provider}:${primary.model} failed for ${stage}, using ${fallback.provider}:${fallback.model}`, e);
+    return getProvider(fallback.provider).complete({ model: fallback.model, messages, ...options });
+  }
+}
+
+// Fails over only if the primary errors before its first chunk.
+export async function* stream(
+  stage: LLMStage,
+  messages: LLMMessage[],
+  options: { temperature?: number } = {}
+): AsyncIterable<string> {
+  const { primary, fallback } = resolveStage(stage);
+  let started = false;
+  try {
+    for await (const text of getProvider(primary.provider).stream({ model: primary.model, messages, ...options })) {
+      started = true;
+      yield text;
+    }
+  } catch (e) {
+    if (!fallback || started) throw e;
+    console.warn(`[LLM] ${primary.provider}:${primary.model} failed for ${stage}, using ${fallback.provider}:${fallback.model}`, e);
+    yield* getProvider(fallback.provider).stream({ model: fallback.model, messages, ...options });
+  }
+}
+
+export async function completeWithTools(
+  stage: LLMStage,
+  messages: LLMToolMessage[],
+  tools: LLMToolSpec[],
+  options: { temperature?: number } = {}
+): Promise<LLMToolReply> {
+  const { primary, fallback } = resolveStage(stage);
+  try {
+    return await getProvider(primary.provider).completeWithTools({ model: primary.model, messages, tools, ...options });
+  } catch (e) {
+    if (!fallback) throw e;
+    console.warn(`[LLM] ${primary.provider}:${primary.model} failed for ${stage}, using ${fallback.provider}:${fallback.model}`, e);
+    return getProvider(fallback.provider).completeWithTools({ model: fallback.model, messages, tools, ...options });
+  }
+}
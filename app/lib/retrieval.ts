@@ -0,0 +1,141 @@
+// Hybrid retrieval for the document path:
+//   1. dense (vector store) and BM25 keyword search run side by side,
+//   2. their rankings are merged with reciprocal rank fusion,
+//   3. a reranker orders the fused candidates and picks the final context.
+// Every stage's score is kept on the passage for debugging.
+//
+//   RERANKER=cross-encoder   local ms-marco-MiniLM-L-6-v2 via @xenova/transformers (default)
+//   RERANKER=none            keep the fused order
+
+import { embedQuery, EmbeddingError } from './embeddings';
+import { keywordSearch } from './keywordIndex';
+import { getVectorStore, VectorMetadata } from './vectorStore';
+import type { KnowledgeAgent } from './knowledgeSources';
+
+// --- TYPES ---
+export interface RetrievalScores {
+  vector?: number;        // cosine similarity
+  vectorRank?: number;    // 1-based
+  keyword?: number;       // BM25
+  keywordRank?: number;
+  fused: number;          // reciprocal rank fusion
+  rerank?: number;        // cross-encoder relevance (logit)
+}
+
+export interface RetrievedPassage {
+  id: string;
+  metadata: VectorMetadata;
+  scores: RetrievalScores;
+}
+
+export interface RetrievalOptions {
+  candidates?: number;    // per retriever, and how many fused results are reranked
+  limit?: number;         // passages returned
+}
+
+// Rank offset from the original RRF paper; dampens the weight of the top ranks
+const RRF_K = 60;
+
+// --- RERANKER ---
+const CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2';
+
+let crossEncoder: Promise<{ tokenizer: any; model: any }> | null = null;
+
+const loadCrossEncoder = () => {
+  if (!crossEncoder) {
+    crossEncoder = import('@xenova/transformers').then(async ({ AutoTokenizer, AutoModelForSequenceClassification, env }) => {
+      if (process.env.LOCAL_EMBEDDING_MODEL_DIR) {
+        env.localModelPath = process.env.LOCAL_EMBEDDING_MODEL_DIR;
+        env.allowRemoteModels = false;
+      }
+      const [tokenizer, model] = await Promise.all([
+        AutoTokenizer.from_pretrained(CROSS_ENCODER_MODEL),
+        AutoModelForSequenceClassification.from_pretrained(CROSS_ENCODER_MODEL),
+      ]);
+      return { tokenizer, model };
+    });
+    crossEncoder.catch(() => { crossEncoder = null; });
+  }
+  return crossEncoder;
+};
+
+// Relevance of each passage to the query, higher is better
+async function crossEncoderScores(query: string, texts: string[]): Promise<number[]> {
+  const { tokenizer, model } = await loadCrossEncoder();
+  const inputs = tokenizer(new Array(texts.length).fill(query), { text_pair: texts, padding: true, truncation: true });
+  const { logits } = await model(inputs);
+  return (logits.tolist() as number[][]).map(row => row[0]);
+}
+
+async function rerank(query: string, passages: RetrievedPassage[]): Promise<RetrievedPassage[]> {
+  const reranker = process.env.RERANKER || 'cross-encoder';
+  if (reranker === 'none' || passages.length < 2) return passages;
+
+  try {
+    const scores = await crossEncoderScores(query, passages.map(p => p.metadata.text));
+    return passages
+      .map((p, i) => ({ ...p, scores: { ...p.scores, rerank: scores[i] } }))
+      .sort((a, b) => b.scores.rerank! - a.scores.rerank!);
+  } catch (e) {
+    console.warn("[Retrieval] Reranker unavailable, keeping fused order:", (e as Error)?.message || e);
+    return passages;
+  }
+}
+
+// --- FUSION ---
+// Reciprocal rank fusion: each ranking adds 1 / (RRF_K + rank) to a passage
+export function fuse(rankings: { key: 'vector' | 'keyword'; matches: { id: string; score: number; metadata: VectorMetadata }[] }[]): RetrievedPassage[] {
+  const byId = new Map<string, RetrievedPassage>();
+  for (const { key, matches } of rankings) {
+    matches.forEach((match, i) => {
+      const passage = byId.get(match.id) || { id: match.id, metadata: match.metadata, scores: { fused: 0 } };
+      passage.scores[key] = match.score;
+      passage.scores[`${key}Rank`] = i + 1;
+      passage.scores.fused += 1 / (RRF_K + i + 1);
+      byId.set(match.id, passage);
+    });
+  }
+  return Array.from(byId.values()).sort((a, b) => b.scores.fused - a.scores.fused);
+}
+
+// --- PUBLIC API ---
+/**
+ * Best passages for `query` among `agent`'s documents. Either retriever may
+ * fail on its own; the search only fails if both do.
+ */
+export async function retrievePassages(
+  query: string,
+  agent: KnowledgeAgent,
+  { candidates = 30, limit = 8 }: RetrievalOptions = {}
+): Promise<RetrievedPassage[]> {
+  const [dense, keyword] = await Promise.allSettled([
+    embedQuery(query).then(vector => getVectorStore().query(vector, { topK: candidates, filter: { agent } })),
+    keywordSearch(agent, query, candidates),
+  ]);
+
+  if (dense.status === 'rejected' && keyword.status === 'rejected') throw dense.reason;
+  if (dense.status === 'rejected') {
+    const reason = dense.reason;
+    console.warn(`[Retrieval] Vector search failed, using keywords only:`, reason instanceof EmbeddingError ? reason.code : reason);
+    // Without vectors and without keyword hits the knowledge base is effectively unreachable
+    if (keyword.status === 'fulfilled' && keyword.value.length === 0) throw reason;
+  }
+  if (keyword.status === 'rejected') console.warn("[Retrieval] Keyword search failed, using vectors only:", keyword.reason);
+
+  const fused = fuse([
+    { key: 'vector', matches: dense.status === 'fulfilled' ? dense.value : [] },
+    { key: 'keyword', matches: keyword.status === 'fulfilled' ? keyword.value : [] },
+  ]);
+
+  const ranked = (await rerank(query, fused.slice(0, candidates))).slice(0, limit);
+
+  console.log(`[Retrieval] "${query}" -> ${ranked.length} passages\n` + ranked.map((p, i) => {
+    const s = p.scores;
+    return `  ${i + 1}. ${p.id}  fused=${s.fused.toFixed(4)}` +
+      ` vector=${s.vector?.toFixed(3) ?? '-'}#${s.vectorRank ?? '-'}` +
+      ` bm25=${s.keyword?.toFixed(2) ?? '-'}#${s.keywordRank ?? '-'}` +
+      ` rerank=${s.rerank?.toFixed(2) ?? '-'}`;
+  }).join('\n'));
+
+  return ranked;
+}
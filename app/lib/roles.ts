@@ -0,0 +1,17 @@
+// Access roles carried in the session.
+//   resident - document-grounded answers and their own records only
+//   staff    - city-wide analytics over the SQL tables
+//   admin    - staff access plus administration
+
+export type Role = 'resident' | 'staff' | 'admin';
+
+export const ROLES: Role[] = ['resident', 'staff', 'admin'];
+
+const RANK: Record<Role, number> = { resident: 0, staff: 1, admin: 2 };
+
+// Unknown or missing roles get the least privilege.
+export const normalizeRole = (role: unknown): Role => (ROLES.includes(role as Role) ? (role as Role) : 'resident');
+
+export const hasRole = (role: Role | undefined, minimum: Role) => RANK[normalizeRole(role)] >= RANK[minimum];
+
+export const isStaff = (role: Role | undefined) => hasRole(role, 'staff');
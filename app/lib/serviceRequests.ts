@@ -0,0 +1,183 @@
+// Service request intake from chat ("Report a pothole").
+// Each turn, the model extracts the request's fields from the conversation;
+// the chat asks for whatever is still missing, then shows a confirmation
+// card. Submitting inserts a ticket with the next CL-style ID, which the
+// resident can look up later like any other ticket.
+
+import { z } from 'zod';
+import type { CompleteFn } from './conversation';
+import { getSupabase } from './supabase';
+
+export const SERVICE_REQUEST_CATEGORIES = [
+  'Pothole', 'Streetlight', 'Graffiti', 'Illegal Dumping', 'Sidewalk',
+  'Traffic Signal', 'Code Enforcement', 'Animal Services', 'Other',
+] as const;
+
+// --- SCHEMAS ---
+const phone = z.string().trim().regex(/^\+?[\d\s().-]{7,20}$/, 'Enter a phone number');
+const email = z.string().trim().email('Enter an email address');
+
+// A complete request, as submitted
+export const serviceRequestSchema = z.object({
+  category: z.enum(SERVICE_REQUEST_CATEGORIES),
+  location: z.string().trim().min(3).max(200),
+  description: z.string().trim().min(3).max(1000),
+  contactName: z.string().trim().min(1).max(100),
+  contactPhone: phone.optional(),
+  contactEmail: email.optional(),
+}).refine(r => r.contactPhone || r.contactEmail, { message: 'A phone number or email address is required', path: ['contactPhone'] });
+
+export type ServiceRequestDraft = Partial<z.infer<typeof serviceRequestSchema>>;
+
+export type ServiceRequestField = 'category' | 'location' | 'description' | 'contact';
+
+export interface ServiceRequestState {
+  status: 'collecting' | 'confirm' | 'submitted' | 'cancelled';
+  draft: ServiceRequestDraft;
+  missing: ServiceRequestField[];
+  ticketId?: string;        // once submitted
+}
+
+// --- DETECTION ---
+// "Report a pothole", "there's graffiti on ...", "I want to file a service request"
+const REQUEST_PATTERN = /\b(report|request|file|submit|log|there'?s|there is)\b[^.?!]*\b(pothole|street ?light|graffiti|dumping|sidewalk|traffic (signal|light)|abandoned|code violation|stray)|\bservice request\b/i;
+const CANCEL_PATTERN = /^\s*(cancel|never ?mind|stop|forget it)\b/i;
+const SUBMIT_PATTERN = /^\s*(yes|yep|submit|confirm|send it|file it|looks (good|right)|that'?s (right|correct))\b/i;
+
+export const isServiceRequestIntent = (text: string) => REQUEST_PATTERN.test(text);
+export const isCancellation = (text: string) => CANCEL_PATTERN.test(text);
+export const isSubmission = (text: string) => SUBMIT_PATTERN.test(text);
+
+// An intake still waiting on the user; the client sends it back with the next message
+export const isActiveIntake = (state: ServiceRequestState | null | undefined): state is ServiceRequestState =>
+  !!state && (state.status === 'collecting' || state.status === 'confirm');
+
+/** The client's copy of an active intake, or null when it is missing or malformed. */
+export function parseIntakeState(raw: unknown): ServiceRequestState | null {
+  const parsed = z.object({
+    status: z.enum(['collecting', 'confirm']),
+    draft: z.record(z.unknown()),
+  }).safeParse(raw);
+  if (!parsed.success) return null;
+  const draft = cleanDraft(parsed.data.draft);
+  return { status: parsed.data.status, draft, missing: missingFields(draft) };
+}
+
+// --- EXTRACTION ---
+const EXTRACTION_PROMPT = `
+  You help residents of Rancho Cordova report problems to the city.
+  From the conversation, extract the service request the resident is describing.
+
+  Fields (use null for anything the resident has not said):
+  - category: one of ${SERVICE_REQUEST_CATEGORIES.map(c => `"${c}"`).join(', ')}
+  - location: street address, intersection or landmark, as given
+  - description: the problem in the resident's words (size, hazard, how long)
+  - contactName, contactPhone, contactEmail: only if the resident gave them
+
+  Later messages override earlier ones. Do not invent details.
+  Respond with ONLY a JSON object with those six keys.
+`;
+
+// Drops fields that don't validate, so the chat asks for them again
+function cleanDraft(raw: Record<string, unknown>): ServiceRequestDraft {
+  const fields: Record<keyof ServiceRequestDraft, z.ZodTypeAny> = {
+    category: z.enum(SERVICE_REQUEST_CATEGORIES),
+    location: z.string().trim().min(3).max(200),
+    description: z.string().trim().min(3).max(1000),
+    contactName: z.string().trim().min(1).max(100),
+    contactPhone: phone,
+    contactEmail: email,
+  };
+  const draft: ServiceRequestDraft = {};
+  for (const [key, schema] of Object.entries(fields)) {
+    const parsed = schema.safeParse(raw[key]);
+    if (parsed.success) draft[key] = parsed.data;
+  }
+  return draft;
+}
+
+/**
+ * `previous` updated with what the conversation says. Fields the model
+ * didn't find keep their earlier value.
+ */
+export async function extractServiceRequest(
+  transcript: string,
+  previous: ServiceRequestDraft,
+  complete: CompleteFn
+): Promise<ServiceRequestDraft> {
+  try {
+    const text = await complete([
+      { role: 'system', content: EXTRACTION_PROMPT },
+      { role: 'user', content: transcript }
+    ], { temperature: 0 });
+    const match = text.match(/\{[\s\S]*\}/);
+    if (match) return { ...previous, ...cleanDraft(JSON.parse(match[0])) };
+    console.warn("[Intake] Unparseable extraction output:", text);
+  } catch (e) {
+    console.error("Intake Extraction Error:", e);
+  }
+  return previous;
+}
+
+export function missingFields(draft: ServiceRequestDraft): ServiceRequestField[] {
+  const missing: ServiceRequestField[] = [];
+  if (!draft.category) missing.push('category');
+  if (!draft.location) missing.push('location');
+  if (!draft.description) missing.push('description');
+  if (!draft.contactName || !(draft.contactPhone || draft.contactEmail)) missing.push('contact');
+  return missing;
+}
+
+// --- PROMPTS ---
+const FIELD_QUESTIONS: Record<ServiceRequestField, string> = {
+  category: 'What kind of problem is it? For example a pothole, a broken streetlight, graffiti or illegal dumping.',
+  location: 'Where is it? A street address or the nearest intersection helps the crew find it.',
+  description: 'What does it look like? A short description (size, hazard, how long it has been there) helps.',
+  contact: 'How can the city reach you with updates? Your name and a phone number or email address.',
+};
+
+// The chat's reply for an intake turn
+export function describeIntake(state: ServiceRequestState): string {
+  const subject = state.draft.category && state.draft.category !== 'Other'
+    ? `${state.draft.category.toLowerCase()} report`
+    : 'service request';
+
+  switch (state.status) {
+    case 'collecting':
+      return state.missing.length === 1
+        ? `To file your ${subject} I need one more detail. ${FIELD_QUESTIONS[state.missing[0]]}`
+        : `To file your ${subject} I need a few details:\n\n${state.missing.map(f => `- ${FIELD_QUESTIONS[f]}`).join('\n')}`;
+    case 'confirm':
+      return `Please check the details of your ${subject} below. Submit it when everything looks right, or tell me what to change.`;
+    case 'submitted':
+      return `Your ${subject} has been filed as ticket **${state.ticketId}**. You can check its status any time by asking "status of ticket ${state.ticketId}".`;
+    case 'cancelled':
+      return `Okay, I've cancelled the ${subject}. Nothing was filed.`;
+  }
+}
+
+// --- SUBMIT ---
+/** Inserts the request into the call log and returns its new ticket ID. */
+export async function createServiceRequest(
+  request: z.infer<typeof serviceRequestSchema>,
+  filer: { userId: string; customerId?: string | null }
+): Promise<string> {
+  const { data: ticketId, error: idError } = await getSupabase().rpc('next_ticket_id');
+  if (idError || typeof ticketId !== 'string') throw new Error(idError?.message || 'Could not allocate a ticket ID');
+
+  const { error } = await getSupabase().from('tickets').insert({
+    call_id: ticketId,
+    customer_id: filer.customerId || null,
+    created_at: new Date().toISOString(),
+    category: request.category,
+    location: request.location,
+    description: request.description,
+    contact_name: request.contactName,
+    contact_phone: request.contactPhone || null,
+    contact_email: request.contactEmail || null,
+    created_by: filer.userId,
+    source: 'chat',
+  });
+  if (error) throw new Error(error.message);
+  return ticketId;
+}
@@ -0,0 +1,79 @@
+// Signed session cookies. Uses only Web Crypto so it runs in both the
+// Edge middleware and Node route handlers.
+// Cookie value: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature)
+
+import { normalizeRole, Role } from './roles';
+
+export const SESSION_COOKIE = 'rc_session';
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+
+export interface SessionPayload {
+  sub: string;          // user id
+  username: string;
+  displayName: string;
+  role: Role;
+  customerId?: string | null;
+  exp: number;          // expiry, seconds since epoch
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+const getKey = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) throw new Error('SESSION_SECRET must be set to at least 32 characters');
+  if (!keyPromise) {
+    keyPromise = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  }
+  return keyPromise;
+};
+
+export async function createSessionToken(user: Omit<SessionPayload, 'exp'>): Promise<string> {
+  const payload: SessionPayload = { ...user, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the payload of a valid, unexpired token; null for anything else.
+export async function verifySessionToken(token: string | undefined): Promise<SessionPayload | null> {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as SessionPayload;
+    if (!payload.sub || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) return null;
+    return { ...payload, role: normalizeRole(payload.role) };
+  } catch (e) {
+    return null;
+  }
+}
+
+// Reads the session of an incoming request (route handlers and middleware).
+export const getRequestSession = (req: { cookies: { get(name: string): { value: string } | undefined } }) =>
+  verifySessionToken(req.cookies.get(SESSION_COOKIE)?.value);
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+  maxAge: SESSION_TTL_SECONDS,
+};
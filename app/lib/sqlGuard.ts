@@ -0,0 +1,230 @@
+import { Parser } from 'node-sql-parser';
+
+// --- LIMITS ---
+export const MAX_ROWS = 500;
+export const STATEMENT_TIMEOUT_MS = 8000;
+
+// Tables (and their columns) the analytics path may read. The chat route
+// passes the introspected schema instead (analyticsSchema.ts); this is the
+// default and the fallback when introspection fails.
+export const ALLOWED_TABLES: Record<string, string[]> = {
+  tickets: ['call_id', 'customer_id', 'created_at', 'category', 'agent', 'resolution'],
+  energy_usage: ['customer_id', 'account_type', 'month_date', 'consumption_kwh'],
+  meter_readings: ['account_id', 'reading_time', 'kwh'],
+};
+
+// What residents may query about themselves, and the column linking each table to them.
+export const RESIDENT_TABLES: Record<string, string[]> = {
+  tickets: ['call_id', 'customer_id', 'created_at', 'category', 'resolution'],
+  energy_usage: ['customer_id', 'account_type', 'month_date', 'consumption_kwh'],
+};
+
+export const CUSTOMER_OWNER_COLUMNS: Record<string, string> = {
+  tickets: 'customer_id',
+  energy_usage: 'customer_id',
+};
+
+// The only functions a query may call: aggregates, window functions and
+// scalar date, math, text and conditional helpers. Anything else (file and
+// catalog access, *_to_xml dumps, sleeps, generate_series) is rejected, as are
+// schema-qualified names, which could point at a same-named function elsewhere.
+const ALLOWED_FUNCTIONS = new Set([
+  // aggregates
+  'count', 'sum', 'avg', 'min', 'max', 'stddev', 'stddev_pop', 'stddev_samp', 'variance', 'var_pop', 'var_samp',
+  'percentile_cont', 'percentile_disc', 'mode', 'bool_and', 'bool_or', 'every', 'string_agg', 'array_agg',
+  'corr', 'covar_pop', 'covar_samp', 'regr_slope', 'regr_intercept', 'regr_r2',
+  // window
+  'row_number', 'rank', 'dense_rank', 'percent_rank', 'cume_dist', 'ntile', 'lag', 'lead',
+  'first_value', 'last_value', 'nth_value',
+  // date and time
+  'date_trunc', 'date_part', 'date_bin', 'age', 'now', 'current_date', 'current_timestamp', 'current_time',
+  'localtime', 'localtimestamp', 'to_char', 'to_date', 'to_timestamp', 'make_date', 'make_timestamp',
+  'make_interval', 'justify_days', 'justify_hours', 'justify_interval', 'isfinite',
+  // math
+  'abs', 'ceil', 'ceiling', 'floor', 'round', 'trunc', 'sign', 'sqrt', 'cbrt', 'power', 'exp', 'ln', 'log',
+  'log10', 'mod', 'div', 'width_bucket', 'pi', 'to_number',
+  // text and conditional
+  'lower', 'upper', 'initcap', 'length', 'char_length', 'trim', 'btrim', 'ltrim', 'rtrim', 'concat', 'concat_ws',
+  'substring', 'substr', 'left', 'right', 'replace', 'split_part', 'position', 'strpos', 'lpad', 'rpad',
+  'coalesce', 'nullif', 'greatest', 'least',
+]);
+
+export type SqlRejectionReason =
+  | 'EMPTY_QUERY'
+  | 'PARSE_ERROR'
+  | 'MULTIPLE_STATEMENTS'
+  | 'NOT_SELECT'
+  | 'TABLE_NOT_ALLOWED'
+  | 'COLUMN_NOT_ALLOWED'
+  | 'FUNCTION_NOT_ALLOWED';
+
+export interface SqlRejection {
+  reason: SqlRejectionReason;
+  message: string;
+  detail?: string;
+}
+
+export type SqlGuardResult =
+  | { ok: true; sql: string }
+  | { ok: false; rejection: SqlRejection };
+
+export interface SqlGuardOptions {
+  allowedTables?: Record<string, string[]>;
+  // Limits every referenced table to rows where ownerColumns[table] = value
+  rowScope?: { value: string; ownerColumns: Record<string, string> };
+}
+
+const parser = new Parser();
+const PARSER_OPTIONS = { database: 'postgresql' };
+
+const reject = (reason: SqlRejectionReason, message: string, detail?: string): SqlGuardResult => ({
+  ok: false,
+  rejection: { reason, message, detail },
+});
+
+// Walks every node of the AST, calling visit() on each plain object.
+const walk = (node: any, visit: (n: any) => void) => {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) return node.forEach(n => walk(n, visit));
+  visit(node);
+  Object.values(node).forEach(v => walk(v, visit));
+};
+
+// Lower-cased name of a function call node, schema included ("pg_catalog.lower")
+const functionName = (node: any): string | null => {
+  if (node.type === 'aggr_func' || node.type === 'window_func') return String(node.name).toLowerCase();
+  if (node.type !== 'function') return null;
+  const parts = node.name?.name;
+  const name = Array.isArray(parts) ? parts.map((p: any) => p.value).join('.') : typeof node.name === 'string' ? node.name : '';
+  const schema = node.name?.schema?.value;
+  return (schema ? `${schema}.${name}` : name).toLowerCase();
+};
+
+// Shadows each referenced table with a same-named CTE that only holds the
+// scoped rows and allowed columns; unqualified references then resolve to the CTE.
+const applyRowScope = (sql: string, tables: Record<string, string[]>, scope: SqlGuardOptions['rowScope']) => {
+  const value = scope.value.replace(/'/g, "''");
+  const ctes = Object.entries(tables)
+    .map(([t, columns]) => `${t} AS (SELECT ${columns.join(', ')} FROM public.${t} WHERE ${scope.ownerColumns[t]} = '${value}')`)
+    .join(', ');
+
+  const withMatch = sql.match(/^\s*WITH(\s+RECURSIVE)?\s+/i);
+  return withMatch
+    ? `WITH${withMatch[1] || ''} ${ctes}, ${sql.slice(withMatch[0].length)}`
+    : `WITH ${ctes} ${sql}`;
+};
+
+/**
+ * Validates LLM-generated SQL before it reaches the database.
+ * Accepts a single SELECT over the allow-listed tables/columns and
+ * returns it with a row LIMIT applied; anything else is rejected with a reason.
+ */
+export function validateSql(query: string, options: SqlGuardOptions = {}): SqlGuardResult {
+  const { allowedTables = ALLOWED_TABLES, rowScope } = options;
+  const trimmed = (query || '').trim().replace(/;+\s*$/, '');
+  if (!trimmed) return reject('EMPTY_QUERY', 'No SQL was generated for this question.');
+
+  let parsed: ReturnType<Parser['parse']>;
+  try {
+    parsed = parser.parse(trimmed, PARSER_OPTIONS);
+  } catch (e: any) {
+    return reject('PARSE_ERROR', 'The generated query could not be parsed.', e?.message);
+  }
+
+  // 1. Exactly one SELECT statement
+  const statements = Array.isArray(parsed.ast) ? parsed.ast : [parsed.ast];
+  if (statements.length !== 1) {
+    return reject('MULTIPLE_STATEMENTS', 'Only a single statement can be run at a time.');
+  }
+  const ast: any = statements[0];
+  if (ast?.type !== 'select') {
+    return reject('NOT_SELECT', 'Only read-only SELECT queries are allowed.', String(ast?.type || '').toUpperCase());
+  }
+
+  // 2. Tables (data-modifying CTEs show up here with their own statement type)
+  const cteNames = new Set<string>(
+    (ast.with || []).map((w: any) => String(w.name?.value ?? w.name).toLowerCase())
+  );
+  const referencedTables = new Set<string>();
+
+  for (const entry of parsed.tableList) {
+    const [type, schema, table] = entry.split('::');
+    const name = table.toLowerCase();
+    if (type.toLowerCase() !== 'select') {
+      return reject('NOT_SELECT', 'Only read-only SELECT queries are allowed.', type.toUpperCase());
+    }
+    // A schema-qualified name would bypass the row-scope CTEs
+    if (rowScope && schema !== 'null') {
+      return reject('TABLE_NOT_ALLOWED', `The table "${schema}.${table}" is not available for analytics.`, `${schema}.${table}`);
+    }
+    if (cteNames.has(name)) {
+      if (rowScope && allowedTables[name]) {
+        return reject('TABLE_NOT_ALLOWED', `"${table}" cannot be redefined in this query.`, table);
+      }
+      continue;
+    }
+    if (!allowedTables[name]) {
+      return reject('TABLE_NOT_ALLOWED', `The table "${table}" is not available for analytics.`, table);
+    }
+    referencedTables.add(name);
+  }
+
+  // 3. Columns (aliases defined inside the query are allowed)
+  const aliases = new Set<string>();
+  walk(ast, n => {
+    if (typeof n.as === 'string') aliases.add(n.as.toLowerCase());
+  });
+
+  const knownColumns = new Set<string>();
+  referencedTables.forEach(t => allowedTables[t].forEach(c => knownColumns.add(c)));
+
+  for (const entry of parsed.columnList) {
+    const [, table, column] = entry.split('::');
+    const name = column.toLowerCase();
+    if (name === '(.*)' || aliases.has(name)) continue;
+
+    const tableName = table === 'null' ? null : table.toLowerCase();
+    const allowed = tableName && allowedTables[tableName]
+      ? allowedTables[tableName].includes(name)
+      : knownColumns.has(name);
+
+    if (!allowed) {
+      return reject('COLUMN_NOT_ALLOWED', `The column "${column}" is not available for analytics.`, column);
+    }
+  }
+
+  // 4. Functions: allow-listed calls only, and none in FROM (set-returning
+  // functions such as generate_series or unnest produce rows out of nothing)
+  let blockedFunction: string | null = null;
+  let fromFunction: string | null = null;
+  walk(ast, n => {
+    const name = functionName(n);
+    if (name && !blockedFunction && !ALLOWED_FUNCTIONS.has(name)) blockedFunction = name;
+    if (Array.isArray(n.from) && !fromFunction) {
+      const item = n.from.find((f: any) => f?.expr && functionName(f.expr));
+      if (item) fromFunction = functionName(item.expr);
+    }
+  });
+  if (fromFunction) {
+    return reject('FUNCTION_NOT_ALLOWED', `The function "${fromFunction}" cannot be used as a table.`, fromFunction);
+  }
+  if (blockedFunction) {
+    return reject('FUNCTION_NOT_ALLOWED', `The function "${blockedFunction}" is not allowed.`, blockedFunction);
+  }
+
+  // 5. Row scope
+  const sql = rowScope && referencedTables.size
+    ? applyRowScope(trimmed, Object.fromEntries(Array.from(referencedTables, t => [t, allowedTables[t]])), rowScope)
+    : trimmed;
+
+  // 6. Row limit
+  const limitValues = ast.limit?.value || [];
+  if (limitValues.length === 0) {
+    return { ok: true, sql: `${sql} LIMIT ${MAX_ROWS}` };
+  }
+  const limit = limitValues[limitValues.length === 2 && ast.limit.seperator === ',' ? 1 : 0];
+  if (limit?.type === 'number' && Number(limit.value) <= MAX_ROWS) {
+    return { ok: true, sql };
+  }
+  return { ok: true, sql: `SELECT * FROM (${sql}) AS guarded_query LIMIT ${MAX_ROWS}` };
+}
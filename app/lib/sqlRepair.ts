@@ -0,0 +1,66 @@
+// Repair loop for generated SQL. When the database rejects a query, or it
+// returns no rows, the error (or a hint) goes back to the model with the
+// schema and it gets another try, up to MAX_SQL_ATTEMPTS in total.
+// A repaired query starts with a "-- fix: ..." comment; those notes tell the
+// user what was adjusted.
+
+export const MAX_SQL_ATTEMPTS = 3;
+
+export type SqlAttemptOutcome =
+  | 'ok'
+  | 'empty'         // ran, returned no rows
+  | 'db_error'      // Postgres refused it
+  | 'rejected';     // blocked by the SQL guard (not repaired)
+
+export interface SqlAttempt {
+  sql: string;
+  outcome: SqlAttemptOutcome;
+  detail?: string;    // database error or guard message
+  note?: string;      // the model's "-- fix:" note for a repaired query
+  rowCount?: number;
+  durationMs?: number;
+}
+
+const FIX_COMMENT = /^\s*--\s*fix:\s*(.*)$/im;
+
+// Splits model output into the SQL and its optional fix note
+export function parseGeneratedSql(text: string): { sql: string; note?: string } {
+  const cleaned = text.replace(/```sql|```/gi, '').trim();
+  const note = cleaned.match(FIX_COMMENT)?.[1]?.trim();
+  const sql = cleaned
+    .replace(/^\s*--.*$/gm, '')
+    .trim()
+    .replace(/;+\s*$/, '');
+  return { sql, ...(note && { note }) };
+}
+
+// Follow-up to the model's previous (assistant) turn, asking for a corrected query
+export function repairPrompt(attempt: SqlAttempt, schemaText: string): string {
+  const problem = attempt.outcome === 'db_error'
+    ? `was rejected by PostgreSQL: ${attempt.detail}`
+    : `ran but returned no rows. Common causes: a categorical value spelled or cased differently from the listed values, a date range outside the data (mostly 2024-2025), or filters that are stricter than the question.`;
+
+  return `
+    Your previous query ${problem}
+
+    Table Schema:
+    ${schemaText.replace(/\n/g, '\n    ')}
+
+    Write a corrected query. Start with one comment line "-- fix: <what you changed, in plain words>",
+    then the SQL only. No markdown, no semicolon.
+    If the question genuinely has no matching data, repeat the query unchanged with "-- fix: none".
+  `;
+}
+
+// Sentence appended to the answer when the query had to be adjusted, or null
+export function describeAdjustments(attempts: SqlAttempt[]): string | null {
+  const failed = attempts.filter(a => a.outcome === 'empty' || a.outcome === 'db_error');
+  if (!failed.length || attempts.length < 2) return null;
+
+  const first = failed[0].outcome === 'empty' ? 'returned no rows' : 'was rejected by the database';
+  const notes = attempts
+    .map(a => a.note)
+    .filter((note): note is string => !!note && note.toLowerCase() !== 'none');
+
+  return `Note: my first query ${first}, so I adjusted it${notes.length ? ` (${notes.join('; ')})` : ''}.`;
+}
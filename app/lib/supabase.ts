@@ -0,0 +1,47 @@
+import { createHmac } from 'crypto';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null = null;
+
+// Server-only client (service-role key). Never import this from a client component.
+// Created on first use so modules with a non-Supabase backend load without the env vars.
+export function getSupabase(): SupabaseClient {
+  if (!client) client = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+  return client;
+}
+
+// --- ANALYTICS ---
+// execute_readonly_sql runs as analytics_reader, which can only SELECT the
+// analytics tables' reporting columns. PostgREST switches to the role named in
+// the request's JWT, so this client sends a short-lived token for that role,
+// signed with the project's JWT secret, instead of the service-role key.
+const ANALYTICS_ROLE = 'analytics_reader';
+const ANALYTICS_TOKEN_TTL_SECONDS = 60 * 60;
+
+let analyticsClient: { client: SupabaseClient; expiresAt: number } | null = null;
+
+const base64Url = (value: string | Buffer) => Buffer.from(value).toString('base64url');
+
+function signJwt(payload: Record<string, unknown>, secret: string): string {
+  const body = `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(payload))}`;
+  return `${body}.${base64Url(createHmac('sha256', secret).update(body).digest())}`;
+}
+
+export function getAnalyticsSupabase(): SupabaseClient {
+  const now = Math.floor(Date.now() / 1000);
+  if (analyticsClient && analyticsClient.expiresAt - 60 > now) return analyticsClient.client;
+
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) throw new Error('SUPABASE_JWT_SECRET is required to run analytics queries');
+
+  const expiresAt = now + ANALYTICS_TOKEN_TTL_SECONDS;
+  const token = signJwt({ role: ANALYTICS_ROLE, iat: now, exp: expiresAt }, secret);
+  analyticsClient = {
+    client: createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    }),
+    expiresAt,
+  };
+  return analyticsClient.client;
+}
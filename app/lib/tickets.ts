@@ -0,0 +1,106 @@
+// Deterministic ticket lookups for questions that mention a ticket ID
+// ("status of ticket CL0092"). IDs are normalised and fetched with a
+// parameterized query instead of LLM-generated SQL.
+
+import { getSupabase } from './supabase';
+
+// Canonical IDs are "CL" + 4 zero-padded digits (CL0092)
+export const TICKET_ID_PATTERN = /\bCL[-\s]?0*(\d+)\b/i;
+const TICKET_ID_PATTERN_GLOBAL = new RegExp(TICKET_ID_PATTERN.source, 'gi');
+const TICKET_ID_DIGITS = 4;
+const MAX_TICKETS_PER_QUESTION = 5;
+
+export interface TicketRecord {
+  callId: string;
+  customerId: string | null;
+  createdAt: string;
+  category: string | null;
+  location?: string | null;   // set on requests filed from chat
+  description?: string | null;
+  agent?: string | null;      // omitted for residents
+  resolution: string | null;
+}
+
+// Who is asking. Staff leave `customerId` undefined and see every ticket;
+// residents see their customer's tickets and the ones they filed themselves.
+export interface TicketScope {
+  customerId?: string | null;
+  userId?: string;
+  includeAgent: boolean;
+}
+
+export interface TicketLookup {
+  id: string;
+  found: boolean;
+  ticket?: TicketRecord;
+}
+
+export const normalizeTicketId = (digits: string) => `CL${String(Number(digits)).padStart(TICKET_ID_DIGITS, '0')}`;
+
+// All distinct ticket IDs in a message, normalised ("cl92", "CL-0092" -> "CL0092")
+export function extractTicketIds(text: string): string[] {
+  const ids = Array.from(text.matchAll(TICKET_ID_PATTERN_GLOBAL), m => normalizeTicketId(m[1]));
+  return Array.from(new Set(ids)).slice(0, MAX_TICKETS_PER_QUESTION);
+}
+
+/**
+ * Looks up tickets by ID. For residents (`customerId` not undefined), only
+ * their customer's tickets and the ones they filed are returned; others are
+ * reported as not found.
+ */
+export async function lookupTickets(ids: string[], scope: TicketScope): Promise<TicketLookup[]> {
+  const columns = ['call_id', 'customer_id', 'created_at', 'category', 'location', 'description', 'resolution'];
+  if (scope.includeAgent) columns.push('agent');
+
+  let query = getSupabase().from('tickets').select(columns.join(', ')).in('call_id', ids);
+  if (scope.customerId !== undefined) {
+    const owners = [
+      ...(scope.customerId ? [`customer_id.eq.${scope.customerId}`] : []),
+      ...(scope.userId ? [`created_by.eq.${scope.userId}`] : []),
+    ];
+    // A resident account not linked to a customer, with no filed requests, owns no tickets
+    if (owners.length === 0) return ids.map(id => ({ id, found: false }));
+    query = query.or(owners.join(','));
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+
+  const rows = (data || []) as any[];
+  return ids.map(id => {
+    const row = rows.find(r => String(r.call_id).toUpperCase() === id);
+    if (!row) return { id, found: false };
+    return {
+      id,
+      found: true,
+      ticket: {
+        callId: row.call_id,
+        customerId: row.customer_id,
+        createdAt: row.created_at,
+        category: row.category,
+        location: row.location ?? null,
+        description: row.description ?? null,
+        ...(scope.includeAgent && { agent: row.agent }),
+        resolution: row.resolution,
+      },
+    };
+  });
+}
+
+// Lead-in shown above the ticket cards; names the tickets so follow-up questions can refer to them
+export function introduceTicketLookups(lookups: TicketLookup[]): string {
+  const ids = lookups.map(l => `**${l.id}**`);
+  const list = ids.length > 1 ? `${ids.slice(0, -1).join(', ')} and ${ids[ids.length - 1]}` : ids[0];
+  return `Here's what I found for ${ids.length > 1 ? 'tickets' : 'ticket'} ${list}.`;
+}
+
+// Plain-text summary of lookups, for the agent's tool results
+export function describeTicketLookups(lookups: TicketLookup[]): string {
+  return lookups.map(({ id, found, ticket }) => {
+    if (!found) return `I couldn't find ticket **${id}**. Please check the ID and try again.`;
+    const opened = new Date(ticket.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+    const category = ticket.category ? ` (${ticket.category}${ticket.location ? ` at ${ticket.location}` : ''})` : '';
+    const status = ticket.resolution ? `Resolution: ${ticket.resolution}.` : 'It has no resolution recorded yet.';
+    return `Ticket **${id}**${category} was opened on ${opened}. ${status}`;
+  }).join('\n\n');
+}
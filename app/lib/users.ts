@@ -0,0 +1,160 @@
+// User accounts with scrypt-hashed passwords.
+// Backend is chosen with USER_STORE: 'supabase' (default when SUPABASE_URL
+// is set) or 'file' (JSON file, for local development).
+// Create accounts with: npm run create-user -- <username> <password> [display name] [--role=staff] [--customer=ID]
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { getSupabase } from './supabase';
+import { normalizeRole, Role } from './roles';
+
+// --- TYPES ---
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: Role;
+  // Links a resident to their rows in tickets/energy_usage (customer_id)
+  customerId?: string | null;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export interface UserStore {
+  findByUsername(username: string): Promise<User | null>;
+  save(user: User): Promise<void>;
+}
+
+// --- PASSWORD HASHING ---
+// Stored as scrypt$<N>$<salt hex>$<hash hex>
+const SCRYPT_N = 16384;
+const KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer, N: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N }, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_N);
+  return `scrypt$${SCRYPT_N}$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, saltHex, hashHex] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'), Number(n));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Used when the username doesn't exist, so response time doesn't reveal it.
+const DUMMY_HASH = `scrypt$${SCRYPT_N}$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`;
+
+// --- BACKEND 1: Supabase ---
+// Table is created by supabase/migrations/20261019000200_app_users.sql
+const supabaseStore: UserStore = {
+  async findByUsername(username) {
+    const { data, error } = await getSupabase().from('app_users').select('*').eq('username', username).maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!data) return null;
+    return {
+      id: data.id,
+      username: data.username,
+      displayName: data.display_name,
+      role: normalizeRole(data.role),
+      customerId: data.customer_id,
+      passwordHash: data.password_hash,
+      createdAt: data.created_at,
+    };
+  },
+
+  async save(user) {
+    const { error } = await getSupabase().from('app_users').upsert({
+      id: user.id,
+      username: user.username,
+      display_name: user.displayName,
+      role: user.role,
+      customer_id: user.customerId || null,
+      password_hash: user.passwordHash,
+      created_at: user.createdAt,
+    }, { onConflict: 'username' });
+    if (error) throw new Error(error.message);
+  },
+};
+
+// --- BACKEND 2: JSON File ---
+const FILE_STORE_PATH = process.env.USER_STORE_PATH || path.join(process.cwd(), '.data', 'users.json');
+
+const readUsers = async (): Promise<User[]> => {
+  try {
+    return JSON.parse(await fs.readFile(FILE_STORE_PATH, 'utf8'));
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return [];
+    throw e;
+  }
+};
+
+const fileStore: UserStore = {
+  async findByUsername(username) {
+    const user = (await readUsers()).find(u => u.username === username);
+    return user ? { ...user, role: normalizeRole(user.role) } : null;
+  },
+
+  async save(user) {
+    const users = (await readUsers()).filter(u => u.username !== user.username);
+    users.push(user);
+    await fs.mkdir(path.dirname(FILE_STORE_PATH), { recursive: true });
+    await fs.writeFile(FILE_STORE_PATH, JSON.stringify(users, null, 2));
+  },
+};
+
+// --- SELECTION ---
+export function getUserStore(): UserStore {
+  const backend = process.env.USER_STORE || (process.env.SUPABASE_URL ? 'supabase' : 'file');
+  return backend === 'file' ? fileStore : supabaseStore;
+}
+
+export const normalizeUsername = (username: string) => String(username || '').trim().toLowerCase();
+
+// --- OPERATIONS ---
+export async function authenticate(username: string, password: string): Promise<PublicUser | null> {
+  const user = await getUserStore().findByUsername(normalizeUsername(username));
+  const valid = await verifyPassword(String(password || ''), user?.passwordHash || DUMMY_HASH);
+  if (!user || !valid) return null;
+
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+export async function upsertUser(input: {
+  username: string;
+  password: string;
+  displayName?: string;
+  role?: Role;
+  customerId?: string;
+}): Promise<PublicUser> {
+  const username = normalizeUsername(input.username);
+  if (!username || !input.password) throw new Error('Username and password are required');
+
+  const store = getUserStore();
+  const existing = await store.findByUsername(username);
+  const user: User = {
+    id: existing?.id || randomUUID(),
+    username,
+    displayName: input.displayName || existing?.displayName || username,
+    role: normalizeRole(input.role || existing?.role),
+    customerId: input.customerId ?? existing?.customerId ?? null,
+    passwordHash: await hashPassword(input.password),
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+  await store.save(user);
+
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
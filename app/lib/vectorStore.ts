@@ -0,0 +1,302 @@
+// Vector storage for the document knowledge base.
+// Backend is chosen with VECTOR_STORE: 'pinecone' (default when
+// PINECONE_API_KEY is set), 'supabase' (pgvector), 'file' (JSON file, the
+// default otherwise) or 'memory' (process-local, for tests).
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Pinecone } from '@pinecone-database/pinecone';
+import { getSupabase } from './supabase';
+
+// --- TYPES ---
+// `text`, `source` and `agent` are always present; ingestion may add more.
+export interface VectorMetadata {
+  text: string;
+  source: string;
+  agent: string;
+  [key: string]: string | number | boolean;
+}
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface StoredChunk {
+  id: string;
+  metadata: VectorMetadata;
+}
+
+// A source as the vector store sees it, whoever indexed it
+export interface StoredSource {
+  source: string;
+  agent: string;
+  chunkCount: number;
+}
+
+// Equality on metadata fields, e.g. { agent: 'energy' }
+export type MetadataFilter = Record<string, string | number | boolean>;
+
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(vector: number[], options: { topK: number; filter?: MetadataFilter }): Promise<VectorMatch[]>;
+  deleteBySource(source: string): Promise<void>;
+  listBySource(source: string): Promise<StoredChunk[]>;   // in chunk order
+  listSources(): Promise<StoredSource[]>;                  // from chunk metadata
+}
+
+// Chunk IDs are "<source>_<n>", the scheme used by ingestion_pipeline.ipynb.
+// Pinecone serverless can't delete by metadata, so deletes rely on this prefix.
+export const chunkId = (source: string, index: number) => `${source}_${index}`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const isChunkOf = (source: string) => new RegExp(`^${escapeRegExp(source)}_\\d+$`);
+const CHUNK_ID_PATTERN = /^(.+)_\d+$/;
+
+const byChunkOrder = (a: StoredChunk, b: StoredChunk) =>
+  (Number(a.metadata.chunk) || 0) - (Number(b.metadata.chunk) || 0) || a.id.localeCompare(b.id, undefined, { numeric: true });
+
+const matchesFilter = (metadata: VectorMetadata, filter: MetadataFilter = {}) =>
+  Object.entries(filter).every(([key, value]) => metadata[key] === value);
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// --- BACKEND 1: Pinecone ---
+const PINECONE_INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'rancho-cordova';
+const PINECONE_BATCH_SIZE = 100;
+
+let pineconeClient: Pinecone | null = null;
+
+const pineconeIndex = () => {
+  if (!pineconeClient) pineconeClient = new Pinecone({ apiKey: process.env.PINECONE_API_KEY! });
+  return pineconeClient.index<VectorMetadata>(PINECONE_INDEX_NAME);
+};
+
+// Every chunk ID of a source, one page of the listing at a time
+async function* listPineconeIds(source: string) {
+  const belongs = isChunkOf(source);
+  let paginationToken: string | undefined;
+  do {
+    const page = await pineconeIndex().listPaginated({ prefix: `${source}_`, paginationToken });
+    yield (page.vectors || []).map(v => v.id).filter(id => belongs.test(id));
+    paginationToken = page.pagination?.next;
+  } while (paginationToken);
+}
+
+const pineconeStore: VectorStore = {
+  async upsert(records) {
+    const index = pineconeIndex();
+    for (let i = 0; i < records.length; i += PINECONE_BATCH_SIZE) {
+      await index.upsert(records.slice(i, i + PINECONE_BATCH_SIZE));
+    }
+  },
+
+  async query(vector, { topK, filter }) {
+    const result = await pineconeIndex().query({ vector, topK, includeMetadata: true, filter });
+    return (result.matches || []).map(m => ({ id: m.id, score: m.score ?? 0, metadata: m.metadata }));
+  },
+
+  async deleteBySource(source) {
+    for await (const ids of listPineconeIds(source)) {
+      if (ids.length) await pineconeIndex().deleteMany(ids);
+    }
+  },
+
+  async listBySource(source) {
+    const chunks: StoredChunk[] = [];
+    for await (const ids of listPineconeIds(source)) {
+      if (!ids.length) continue;
+      const { records } = await pineconeIndex().fetch(ids);
+      chunks.push(...Object.values(records).map(r => ({ id: r.id, metadata: r.metadata })));
+    }
+    return chunks.sort(byChunkOrder);
+  },
+
+  // Sources are counted from the chunk IDs; one chunk of each is fetched for its agent
+  async listSources() {
+    const counts = new Map<string, { sampleId: string; chunkCount: number }>();
+    let paginationToken: string | undefined;
+    do {
+      const page = await pineconeIndex().listPaginated({ paginationToken });
+      for (const { id } of page.vectors || []) {
+        const source = id?.match(CHUNK_ID_PATTERN)?.[1];
+        if (!source) continue;
+        const entry = counts.get(source);
+        if (entry) entry.chunkCount++;
+        else counts.set(source, { sampleId: id!, chunkCount: 1 });
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    const entries = Array.from(counts.entries());
+    const sources: StoredSource[] = [];
+    for (let i = 0; i < entries.length; i += PINECONE_BATCH_SIZE) {
+      const batch = entries.slice(i, i + PINECONE_BATCH_SIZE);
+      const { records } = await pineconeIndex().fetch(batch.map(([, entry]) => entry.sampleId));
+      for (const [source, entry] of batch) {
+        const metadata = records[entry.sampleId]?.metadata;
+        if (metadata) sources.push({ source: metadata.source || source, agent: metadata.agent, chunkCount: entry.chunkCount });
+      }
+    }
+    return sources;
+  },
+};
+
+// --- BACKEND 2: Supabase pgvector ---
+// Table and match function are created by supabase/migrations/20261019000500_document_chunks.sql
+const SUPABASE_BATCH_SIZE = 200;
+
+const supabaseStore: VectorStore = {
+  async upsert(records) {
+    for (let i = 0; i < records.length; i += SUPABASE_BATCH_SIZE) {
+      const rows = records.slice(i, i + SUPABASE_BATCH_SIZE).map(r => ({
+        id: r.id,
+        source: r.metadata.source,
+        metadata: r.metadata,
+        embedding: JSON.stringify(r.values),
+      }));
+      const { error } = await getSupabase().from('document_chunks').upsert(rows);
+      if (error) throw new Error(error.message);
+    }
+  },
+
+  async query(vector, { topK, filter = {} }) {
+    const { data, error } = await getSupabase().rpc('match_document_chunks', {
+      query_embedding: JSON.stringify(vector),
+      match_count: topK,
+      filter,
+    });
+    if (error) throw new Error(error.message);
+    return (data || []).map((row: any) => ({ id: row.id, score: row.score, metadata: row.metadata }));
+  },
+
+  async deleteBySource(source) {
+    const { error } = await getSupabase().from('document_chunks').delete().eq('source', source);
+    if (error) throw new Error(error.message);
+  },
+
+  async listBySource(source) {
+    const { data, error } = await getSupabase().from('document_chunks').select('id, metadata').eq('source', source);
+    if (error) throw new Error(error.message);
+    return (data || []).map((row: any) => ({ id: row.id, metadata: row.metadata })).sort(byChunkOrder);
+  },
+
+  // Grouped in the database by supabase/migrations/20261019001500_document_chunk_sources.sql
+  async listSources() {
+    const { data, error } = await getSupabase().rpc('list_document_sources');
+    if (error) throw new Error(error.message);
+    return (data || []).map((row: any) => ({ source: row.source, agent: row.agent, chunkCount: Number(row.chunk_count) }));
+  },
+};
+
+// --- BACKEND 3: In-memory, optionally persisted to a JSON file ---
+// Brute-force cosine search; fine for development-sized corpora.
+function createMemoryStore(filePath?: string): VectorStore {
+  let loaded: Promise<Map<string, VectorRecord>> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  // Read once per process; concurrent callers share the same load.
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        if (!filePath) return new Map<string, VectorRecord>();
+        try {
+          const saved: VectorRecord[] = JSON.parse(await fs.readFile(filePath, 'utf8'));
+          return new Map(saved.map(r => [r.id, r]));
+        } catch (e: any) {
+          if (e.code === 'ENOENT') return new Map<string, VectorRecord>();
+          loaded = null;
+          throw e;
+        }
+      })();
+    }
+    return loaded;
+  };
+
+  // Serializes mutations so concurrent writes don't interleave on disk.
+  const update = (mutate: (all: Map<string, VectorRecord>) => void): Promise<void> => {
+    const run = queue.then(async () => {
+      const all = await load();
+      mutate(all);
+      if (filePath) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(Array.from(all.values())));
+      }
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return {
+    upsert(newRecords) {
+      return update(all => newRecords.forEach(r => all.set(r.id, r)));
+    },
+
+    async query(vector, { topK, filter }) {
+      const all = await load();
+      return Array.from(all.values())
+        .filter(r => matchesFilter(r.metadata, filter))
+        .map(r => ({ id: r.id, score: cosineSimilarity(vector, r.values), metadata: r.metadata }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    },
+
+    deleteBySource(source) {
+      return update(all => {
+        for (const [id, record] of Array.from(all)) {
+          if (record.metadata.source === source) all.delete(id);
+        }
+      });
+    },
+
+    async listBySource(source) {
+      const all = await load();
+      return Array.from(all.values())
+        .filter(r => r.metadata.source === source)
+        .map(r => ({ id: r.id, metadata: r.metadata }))
+        .sort(byChunkOrder);
+    },
+
+    async listSources() {
+      const sources = new Map<string, StoredSource>();
+      (await load()).forEach(({ metadata }) => {
+        const entry = sources.get(metadata.source);
+        if (entry) entry.chunkCount++;
+        else sources.set(metadata.source, { source: metadata.source, agent: metadata.agent, chunkCount: 1 });
+      });
+      return Array.from(sources.values());
+    },
+  };
+}
+
+const FILE_STORE_PATH = process.env.VECTOR_STORE_PATH || path.join(process.cwd(), '.data', 'vectors.json');
+
+const fileStore = createMemoryStore(FILE_STORE_PATH);
+const memoryStore = createMemoryStore();
+
+// --- SELECTION ---
+export function getVectorStore(): VectorStore {
+  const backend = process.env.VECTOR_STORE || (process.env.PINECONE_API_KEY ? 'pinecone' : 'file');
+  switch (backend) {
+    case 'pinecone': return pineconeStore;
+    case 'supabase': return supabaseStore;
+    case 'memory': return memoryStore;
+    case 'file': return fileStore;
+    default: throw new Error(`Unknown VECTOR_STORE "${backend}"`);
+  }
+}
@@ -0,0 +1,168 @@
+// Structured answers for SQL results: a chart, a table or a KPI card,
+// picked from the shape of the result rows.
+//   kpi   - a single headline figure, optionally against the previous period
+//   chart - a label column plus a few measures (see chartSpec.ts)
+//   table - everything else: lists of records, wide results, rankings with text
+// Like charts, tables and KPIs are built in code and validated with zod.
+
+import { z } from 'zod';
+import type { ChartData } from '../components/ChartDisplay';
+import type { TableData } from '../components/DataTable';
+import type { KpiData } from '../components/KpiCard';
+import {
+  analyzeColumns, buildChartData, chartDataSchema, formatLabel, humanize, isChartable, toNumber,
+  ChartChoice, ResultColumn,
+} from './chartSpec';
+
+type Row = Record<string, unknown>;
+
+export type Visualization = ChartData | TableData | KpiData;
+export type VisualizationKind = Visualization['type'];
+
+// --- SCHEMAS ---
+export const tableDataSchema = z.object({
+  type: z.literal('table'),
+  title: z.string().min(1),
+  explanation: z.string().optional(),
+  columns: z.array(z.object({
+    key: z.string(),
+    label: z.string(),
+    kind: z.enum(['number', 'date', 'text']),
+  })),   // none for an empty result
+  rows: z.array(z.record(z.union([z.string(), z.number(), z.null()]))),
+});
+
+export const kpiDataSchema = z.object({
+  type: z.literal('kpi'),
+  title: z.string().min(1),
+  value: z.number().finite(),
+  unit: z.string().optional(),
+  period: z.string().optional(),
+  previousValue: z.number().finite().optional(),
+  previousPeriod: z.string().optional(),
+  delta: z.number().finite().optional(),
+  deltaPercent: z.number().finite().optional(),
+  explanation: z.string().optional(),
+});
+
+export const visualizationSchema = z.union([chartDataSchema, tableDataSchema, kpiDataSchema]);
+
+// --- KPI DETECTION ---
+const PREVIOUS_COLUMN = /(^|_)(prev|previous|prior|last)(_|$)/i;
+
+interface KpiLayout {
+  value: ResultColumn;
+  current: Row;
+  previous?: { row: Row; column: ResultColumn };
+  period?: ResultColumn;
+}
+
+// One figure (one row, one measure); one row with a current and a "previous_"
+// measure; or two dated rows of one measure (latest vs the one before)
+function kpiLayout(rows: Row[]): KpiLayout | null {
+  const columns = analyzeColumns(rows);
+  const numbers = columns.filter(c => c.kind === 'number');
+  const period = columns.find(c => c.kind === 'date') || columns.find(c => c.kind === 'text');
+  if (columns.length > numbers.length + 1) return null;
+
+  if (rows.length === 1 && numbers.length === 1) {
+    return { value: numbers[0], current: rows[0], period };
+  }
+  if (rows.length === 1 && numbers.length === 2) {
+    const previous = numbers.find(c => PREVIOUS_COLUMN.test(c.name));
+    const value = numbers.find(c => c !== previous);
+    if (previous && value) return { value, current: rows[0], previous: { row: rows[0], column: previous }, period };
+  }
+  if (rows.length === 2 && numbers.length === 1 && period?.kind === 'date') {
+    const [earlier, later] = [...rows].sort((a, b) => String(a[period.name]).localeCompare(String(b[period.name])));
+    return { value: numbers[0], current: later, previous: { row: earlier, column: numbers[0] }, period };
+  }
+  return null;
+}
+
+// Unit from the column name when the model didn't give one
+const inferUnit = (column: string): string | undefined => {
+  if (/kwh/i.test(column)) return 'kWh';
+  if (/(^|_)(pct|percent|percentage)(_|$)/i.test(column)) return '%';
+  if (/(^|_)(cost|amount|usd|price|revenue|bill)(_|$)/i.test(column)) return '$';
+  return undefined;
+};
+
+/** The kind of visualization that fits `rows`, or null when there is nothing to show. */
+export function visualizationKind(rows: Row[]): VisualizationKind | null {
+  if (!rows.length) return null;
+  if (kpiLayout(rows)) return 'kpi';
+
+  // Charts take a label column plus measures; extra text columns (e.g. a
+  // ticket's resolution) or very wide results read better as a table
+  const columns = analyzeColumns(rows);
+  const textColumns = columns.filter(c => c.kind !== 'number').length;
+  if (isChartable(rows) && textColumns <= 1 && columns.length <= 5) return 'chart';
+  return 'table';
+}
+
+// --- BUILD ---
+function validated<T extends Visualization>(schema: z.ZodTypeAny, candidate: unknown): T | null {
+  const parsed = schema.safeParse(candidate);
+  if (!parsed.success) {
+    console.warn("[Visualization] Invalid spec:", parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '));
+    return null;
+  }
+  return parsed.data as T;
+}
+
+export function buildTableData(rows: Row[], choice: Partial<ChartChoice> = {}): TableData | null {
+  const columns = analyzeColumns(rows);
+  return validated<TableData>(tableDataSchema, {
+    type: 'table',
+    title: choice.title?.trim() || `${rows.length} ${rows.length === 1 ? 'record' : 'records'}`,
+    explanation: choice.explanation?.trim() || undefined,
+    columns: columns.map(c => ({ key: c.name, label: humanize(c.name), kind: c.kind })),
+    rows: rows.map(r => Object.fromEntries(columns.map(c => {
+      const value = r[c.name];
+      if (value === null || value === undefined) return [c.name, null];
+      if (c.kind === 'number') return [c.name, toNumber(value)];
+      return [c.name, c.kind === 'date' ? formatLabel(value, 'date') : typeof value === 'object' ? JSON.stringify(value) : String(value)];
+    }))),
+  });
+}
+
+export function buildKpiData(rows: Row[], choice: Partial<ChartChoice> = {}): KpiData | null {
+  const layout = kpiLayout(rows);
+  if (!layout) return null;
+
+  const value = toNumber(layout.current[layout.value.name]);
+  const previousValue = layout.previous ? toNumber(layout.previous.row[layout.previous.column.name]) : null;
+  const periodOf = (row: Row) => (layout.period ? formatLabel(row[layout.period.name], layout.period.kind) : undefined);
+  const hasPrevious = previousValue !== null && value !== null;
+  // A "previous_" column shares the current row, so it has no period of its own
+  const previousPeriod = layout.previous && layout.previous.row !== layout.current ? periodOf(layout.previous.row) : undefined;
+
+  return validated<KpiData>(kpiDataSchema, {
+    type: 'kpi',
+    title: choice.title?.trim() || humanize(layout.value.name),
+    value,
+    unit: choice.unit?.trim() || inferUnit(layout.value.name),
+    period: periodOf(layout.current),
+    ...(hasPrevious && {
+      previousValue,
+      previousPeriod,
+      delta: Number((value - previousValue).toFixed(4)),
+      ...(previousValue !== 0 && { deltaPercent: Number((((value - previousValue) / Math.abs(previousValue)) * 100).toFixed(1)) }),
+    }),
+    explanation: choice.explanation?.trim() || undefined,
+  });
+}
+
+/**
+ * The visualization of `kind` for `rows`. A chart the model declined
+ * ('none'), or a chart or KPI that fails to build, falls back to a table.
+ */
+export function buildVisualization(rows: Row[], kind: VisualizationKind | null, choice: ChartChoice): Visualization {
+  switch (kind) {
+    case 'kpi': return buildKpiData(rows, choice) || buildTableData(rows, choice);
+    case 'table': return buildTableData(rows, choice);
+    case 'chart': return buildChartData(rows, choice) || buildTableData(rows, choice);
+    default: return buildTableData(rows, choice);   // no rows: an empty table, so positions stay aligned
+  }
+}
@@ -17,14 +17,17 @@ export default function Login() {
     setError('');
     setLoading(true);
 
-    // Simulate login delay
-    await new Promise(resolve => setTimeout(resolve, 800));
-
-    if (username === 'admin' && password === 'admin') {
-      sessionStorage.setItem('isAuthenticated', 'true');
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Invalid credentials');
       router.push('/');
-    } else {
-      setError('Invalid credentials');
+    } catch (err: any) {
+      setError(err.message);
       setLoading(false);
     }
   };
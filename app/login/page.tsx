@@ -5,6 +5,18 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { User, Lock, Loader2, AlertCircle } from 'lucide-react';
 
+// Only same-origin paths: resolving against our origin catches "//evil.com",
+// "/\evil.com" and absolute URLs, which browsers treat as other hosts
+const safeNextPath = (next: string | null): string => {
+  if (!next) return '/select-agent';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search : '/select-agent';
+  } catch (e) {
+    return '/select-agent';
+  }
+};
+
 export default function LoginPage() {
   const router = useRouter();
   const [username, setUsername] = useState('');
@@ -17,14 +29,19 @@ export default function LoginPage() {
     setError('');
     setLoading(true);
 
-    // Simulate login delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    if (username === 'admin' && password === 'rancho2024') {
-      sessionStorage.setItem('isAuthenticated', 'true');
-      router.push('/select-agent');
-    } else {
-      setError('Invalid username or password');
+    try {
+      const res = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Invalid username or password');
+
+      // Return to the page the middleware redirected from, if any
+      router.push(safeNextPath(new URLSearchParams(window.location.search).get('next')));
+    } catch (err: any) {
+      setError(err.message);
       setLoading(false);
     }
   };
@@ -6,36 +6,66 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { 
   Send, LogOut, Paperclip, Menu, Plus, 
-  X, AlertCircle, Copy, Check, Info, Bot, Sparkles
+  X, AlertCircle, Copy, Check, Info, Bot, Sparkles, Pencil, Trash2, Database
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import ChartDisplay, { ChartData } from './components/ChartDisplay';
+import VisualizationGrid from './components/VisualizationGrid';
+import TicketCard from './components/TicketCard';
+import SourcesPanel from './components/SourcesPanel';
+import QueryPanel from './components/QueryPanel';
+import ServiceRequestCard from './components/ServiceRequestCard';
+import type { SqlRejection } from './lib/sqlGuard';
+import { readChatStream, ChatRoute, ChatSource } from './lib/chatStream';
+import { linkCitations, CITATION_HREF_PREFIX } from './lib/citations';
+import type { Conversation, ConversationSummary } from './lib/conversationStore';
+import { isStaff, Role } from './lib/roles';
+import type { TicketLookup } from './lib/tickets';
+import type { QueryDetails } from './lib/analyticsQuery';
+import type { Visualization } from './lib/visualization';
+import type { ServiceRequestState } from './lib/serviceRequests';
 
 // --- Types ---
-interface Source {
-  source: string;
-  score: number;
-}
-
 interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  chartData?: ChartData;
-  sources?: Source[];
+  visualizations?: Visualization[];   // charts, tables or KPI cards, one per query
+  sources?: ChatSource[];
+  rejection?: SqlRejection;
+  tickets?: TicketLookup[];
+  queries?: QueryDetails[];
+  editedQueries?: number[];  // queries re-run with edited SQL after the answer was written
+  serviceRequest?: ServiceRequestState;   // a report being filed, shown as a card
   timestamp: Date;
 }
 
 type AgentType = 'customer' | 'energy';
 
-// --- Mock Data ---
-const MOCK_HISTORY = [
-  { label: 'Today', items: ['Solar Panel Rebates', 'Permit Application Status'] },
-  { label: 'Yesterday', items: ['Garbage Collection Schedule', 'SMUD Rate Comparison'] },
-  { label: 'Previous 7 Days', items: ['City Council Meeting', 'EV Charger Locations'] },
-];
+// --- Helpers ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Buckets conversations (already sorted newest first) for the sidebar
+const groupConversations = (conversations: ConversationSummary[]) => {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const today = startOfToday.getTime();
+
+  const groups = [
+    { label: 'Today', since: today, items: [] as ConversationSummary[] },
+    { label: 'Yesterday', since: today - DAY_MS, items: [] as ConversationSummary[] },
+    { label: 'Previous 7 Days', since: today - 7 * DAY_MS, items: [] as ConversationSummary[] },
+    { label: 'Older', since: -Infinity, items: [] as ConversationSummary[] },
+  ];
+
+  conversations.forEach(c => {
+    const updated = new Date(c.updatedAt).getTime();
+    groups.find(g => updated >= g.since)?.items.push(c);
+  });
+
+  return groups.filter(g => g.items.length > 0);
+};
 
 export default function Home() {
   const router = useRouter();
@@ -49,33 +79,120 @@ export default function Home() {
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [openSource, setOpenSource] = useState<{ messageId: string; index: number } | null>(null);
+  const [pendingRoute, setPendingRoute] = useState<ChatRoute | null>(null);
+  const [agentSteps, setAgentSteps] = useState(0);   // tool calls so far, for the agent's progress label
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [displayName, setDisplayName] = useState('');
+  const [role, setRole] = useState<Role | null>(null);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
   // --- Effects ---
+  // Access is enforced by middleware; the session is only fetched for display
   useEffect(() => {
-    const isAuthenticated = sessionStorage.getItem('isAuthenticated');
-    if (!isAuthenticated) {
-      router.push('/login');
-      return;
-    }
+    fetch('/api/auth/session')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => {
+        if (!data) return;
+        setDisplayName(data.user.displayName);
+        setRole(data.user.role);
+      })
+      .catch(() => null);
+
     const selectedAgent = sessionStorage.getItem('selectedAgent') as AgentType;
     if (selectedAgent) setAgentType(selectedAgent);
+    loadConversations();
   }, [router]);
 
   const scrollToBottom = () => messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   useEffect(() => { scrollToBottom() }, [messages, loading]);
 
+  // --- Conversations ---
+  const loadConversations = async () => {
+    try {
+      const res = await fetch('/api/conversations');
+      const data = await res.json();
+      if (res.ok) setConversations(data.conversations);
+    } catch (err) {
+      console.error('Failed to load conversations', err);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    if (loading) return;
+    try {
+      const res = await fetch(`/api/conversations/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load conversation');
+
+      const conversation: Conversation = data.conversation;
+      setMessages(conversation.messages.map(m => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        visualizations: m.visualizations,
+        sources: m.sources,
+        rejection: m.rejection,
+        tickets: m.tickets,
+        queries: m.queries,
+        serviceRequest: m.serviceRequest,
+        timestamp: new Date(m.createdAt)
+      })));
+      setAgentType(conversation.agentType as AgentType);
+      sessionStorage.setItem('selectedAgent', conversation.agentType);
+      setActiveConversationId(conversation.id);
+      setError(null);
+      setMobileMenuOpen(false);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    setRenamingId(null);
+    const current = conversations.find(c => c.id === id);
+    if (!title.trim() || title.trim() === current?.title) return;
+
+    setConversations(prev => prev.map(c => c.id === id ? { ...c, title: title.trim() } : c));
+    try {
+      await fetch(`/api/conversations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      });
+    } finally {
+      loadConversations();
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
+    if (id === activeConversationId) {
+      setActiveConversationId(null);
+      setMessages([]);
+    }
+    try {
+      await fetch(`/api/conversations/${id}`, { method: 'DELETE' });
+    } finally {
+      loadConversations();
+    }
+  };
+
   // --- Handlers ---
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
     sessionStorage.clear();
     router.push('/login');
   };
 
   const handleNewChat = () => {
     setMessages([]);
+    setActiveConversationId(null);
     setMobileMenuOpen(false);
     if (window.innerWidth < 768) setSidebarOpen(false);
   };
@@ -85,6 +202,7 @@ export default function Home() {
       setAgentType(newType);
       sessionStorage.setItem('selectedAgent', newType);
       setMessages([]);
+      setActiveConversationId(null);
     }
   };
 
@@ -98,43 +216,76 @@ export default function Home() {
     }
   };
 
-  const sendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || loading) return;
+  // `text` is set by buttons that answer for the user (e.g. submitting a report)
+  const sendMessage = async (e?: React.FormEvent, text?: string) => {
+    e?.preventDefault();
+    const content = (text ?? input).trim();
+    if (!content || loading) return;
 
     const userMessage: Message = { 
       id: Date.now().toString(), 
       role: 'user', 
-      content: input.trim(),
+      content,
       timestamp: new Date()
     };
     
+    // Prior turns let the server resolve follow-ups like "now break that down by month"
+    const history = messages.map(({ role, content }) => ({ role, content }));
+    // A report still being filed goes back with the message (see app/lib/serviceRequests.ts)
+    const serviceRequest = activeServiceRequest?.serviceRequest;
+
     setMessages(prev => [...prev, userMessage]);
-    setInput('');
+    if (text === undefined) setInput('');
     setLoading(true);
     setError(null);
 
     if (inputRef.current) inputRef.current.style.height = 'auto';
 
-    const fetchWithRetry = async (attempt = 1): Promise<any> => {
+    // The first message of a chat creates its server-side conversation
+    const ensureConversation = async (): Promise<string | null> => {
+      if (activeConversationId) return activeConversationId;
+      try {
+        const res = await fetch('/api/conversations', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title: userMessage.content, agentType })
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error);
+        setActiveConversationId(data.conversation.id);
+        setConversations(prev => [data.conversation, ...prev]);
+        return data.conversation.id;
+      } catch (err) {
+        console.error('Failed to create conversation', err);
+        return null;
+      }
+    };
+
+    const fetchWithRetry = async (conversationId: string | null, attempt = 1): Promise<Response> => {
       try {
         const res = await fetch('/api/chat', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ message: userMessage.content, agentType })
+          body: JSON.stringify({ message: userMessage.content, agentType, history, conversationId, serviceRequest })
         });
 
+        if (res.status === 401) {
+          router.push('/login');
+          throw new Error("Your session has expired. Please sign in again.");
+        }
+
         if (res.status === 503) {
           if (attempt > 3) throw new Error("System is warming up... please try again.");
           await new Promise(r => setTimeout(r, 2000));
-          return fetchWithRetry(attempt + 1);
+          return fetchWithRetry(conversationId, attempt + 1);
         }
 
         const contentType = res.headers.get("content-type");
-        if (contentType && contentType.includes("application/json")) {
+        if (res.ok && contentType && contentType.includes("application/x-ndjson")) {
+          return res;
+        } else if (contentType && contentType.includes("application/json")) {
           const data = await res.json();
-          if (!res.ok) throw new Error(data.error || "Server Error");
-          return data;
+          throw new Error(data.error || "Server Error");
         } else {
           const text = await res.text();
           throw new Error(text || `Server returned ${res.status}`);
@@ -144,29 +295,111 @@ export default function Home() {
       }
     };
 
+    // The assistant message is created on the first streamed content and updated in place
+    const assistantId = (Date.now() + 1).toString();
+    const upsertAssistant = (update: (msg: Message) => Message) => {
+      setMessages(prev => prev.some(m => m.id === assistantId)
+        ? prev.map(m => m.id === assistantId ? update(m) : m)
+        : [...prev, update({ id: assistantId, role: 'assistant', content: '', timestamp: new Date() })]
+      );
+    };
+
     try {
-      const data = await fetchWithRetry();
-      setMessages(prev => [...prev, {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        chartData: data.chartData,
-        sources: data.sources,
-        timestamp: new Date()
-      }]);
+      const res = await fetchWithRetry(await ensureConversation());
+      let streamedSources: ChatSource[] | undefined;
+
+      await readChatStream(res, (event) => {
+        switch (event.type) {
+          case 'route':
+            setPendingRoute(event.route);
+            setAgentSteps(0);
+            break;
+          case 'step':
+            setAgentSteps(n => n + 1);
+            break;
+          case 'query':
+            upsertAssistant(msg => ({ ...msg, queries: [...(msg.queries || []), event.query] }));
+            break;
+          case 'sources':
+            streamedSources = event.sources;
+            break;
+          case 'token':
+            upsertAssistant(msg => ({ ...msg, content: msg.content + event.text, sources: streamedSources }));
+            break;
+          case 'chart':
+            upsertAssistant(msg => ({ ...msg, visualizations: [...(msg.visualizations || []), event.visualization] }));
+            break;
+          case 'tickets':
+            upsertAssistant(msg => ({ ...msg, tickets: event.tickets }));
+            break;
+          case 'serviceRequest':
+            upsertAssistant(msg => ({ ...msg, serviceRequest: event.serviceRequest }));
+            break;
+          case 'done':
+            upsertAssistant(msg => ({
+              ...msg,
+              content: event.result.response,
+              visualizations: event.result.visualizations,
+              sources: event.result.sources,
+              rejection: event.result.rejection,
+              tickets: event.result.tickets,
+              queries: event.result.queries,
+              serviceRequest: event.result.serviceRequest
+            }));
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
     } catch (err: any) {
       setError(err.message.length > 100 ? "An internal server error occurred." : err.message);
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), {
+        id: assistantId,
         role: 'assistant',
         content: "I apologize, but I encountered an error processing your request.",
         timestamp: new Date()
       }]);
     } finally {
       setLoading(false);
+      setPendingRoute(null);
+      setAgentSteps(0);
+      loadConversations();
     }
   };
 
+  // --- Show Your Work ---
+  // Staff re-run edited SQL; the new rows replace the old and the query's
+  // visualization (same position in the list) is rebuilt in the same style
+  const rerunQuery = async (message: Message, index: number, sql: string) => {
+    const visual = message.visualizations?.[index];
+    const chart = visual
+      ? { chart: visual.type === 'chart' ? visual.chartType : 'none', title: visual.title, explanation: '' }
+      : undefined;
+    const res = await fetch('/api/chat/sql', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sql, agentType, chart })
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'The query could not be run.');
+
+    // Every re-run returns a visualization (an empty table for no rows), so positions stay aligned
+    const replaceAt = <T,>(list: T[] = [], item: T) => list.map((old, i) => i === index ? item : old);
+    setMessages(prev => prev.map(m => m.id === message.id
+      ? {
+          ...m,
+          queries: replaceAt(m.queries, data.query),
+          visualizations: replaceAt(m.visualizations, data.visualization),
+          editedQueries: Array.from(new Set([...(m.editedQueries || []), index]))
+        }
+      : m
+    ));
+  };
+
+  // Only the latest assistant message can carry an open report; older cards are read-only
+  const lastAssistant = [...messages].reverse().find(m => m.role === 'assistant');
+  const activeServiceRequest = ['collecting', 'confirm'].includes(lastAssistant?.serviceRequest?.status) ? lastAssistant : undefined;
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -224,17 +457,48 @@ export default function Home() {
                 </button>
 
                 <div className="space-y-8">
-                  {MOCK_HISTORY.map((group, i) => (
-                    <div key={i}>
+                  {conversations.length === 0 && (
+                    <p className="px-3 text-[13px] text-slate-400">No conversations yet.</p>
+                  )}
+                  {groupConversations(conversations).map((group) => (
+                    <div key={group.label}>
                       <h3 className="px-3 text-[11px] font-semibold text-slate-400 uppercase tracking-widest mb-2">
                         {group.label}
                       </h3>
                       <ul className="space-y-0.5">
-                        {group.items.map((item, j) => (
-                          <li key={j}>
-                            <button className="w-full text-left px-3 py-2 rounded-lg hover:bg-slate-200/50 text-[13px] text-slate-600 font-medium truncate transition-colors">
-                              {item}
-                            </button>
+                        {group.items.map((item) => (
+                          <li key={item.id} className="group relative">
+                            {renamingId === item.id ? (
+                              <input
+                                autoFocus
+                                defaultValue={item.title}
+                                onBlur={(e) => renameConversation(item.id, e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') e.currentTarget.blur();
+                                  if (e.key === 'Escape') setRenamingId(null);
+                                }}
+                                className="w-full px-3 py-2 rounded-lg bg-white border border-slate-200 text-[13px] text-slate-700 font-medium outline-none"
+                              />
+                            ) : (
+                              <>
+                                <button
+                                  onClick={() => openConversation(item.id)}
+                                  className={`w-full text-left px-3 py-2 pr-14 rounded-lg hover:bg-slate-200/50 text-[13px] font-medium truncate transition-colors ${
+                                    item.id === activeConversationId ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-600'
+                                  }`}
+                                >
+                                  {item.title}
+                                </button>
+                                <div className="absolute right-1.5 top-1/2 -translate-y-1/2 hidden group-hover:flex gap-0.5">
+                                  <button onClick={() => setRenamingId(item.id)} title="Rename" className="p-1 text-slate-400 hover:text-slate-600 rounded transition-colors">
+                                    <Pencil className="w-3.5 h-3.5" />
+                                  </button>
+                                  <button onClick={() => deleteConversation(item.id)} title="Delete" className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors">
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                                </div>
+                              </>
+                            )}
                           </li>
                         ))}
                       </ul>
@@ -244,12 +508,22 @@ export default function Home() {
               </div>
 
               <div className="p-4 border-t border-slate-200/50">
+                {role === 'admin' && (
+                  <button
+                    onClick={() => router.push('/admin/knowledge')}
+                    className="w-full flex items-center gap-2.5 px-3 py-2 mb-2 rounded-lg text-[13px] font-medium text-slate-600 hover:bg-slate-200/50 transition-colors"
+                  >
+                    <Database className="w-4 h-4 text-slate-400" />
+                    Knowledge Base
+                  </button>
+                )}
                 <div className="flex items-center gap-3 p-2 rounded-xl hover:bg-white transition-all cursor-pointer group">
-                  <div className="w-8 h-8 rounded-full bg-slate-300 flex items-center justify-center text-slate-600 font-bold text-xs">
-                    RC
+                  <div className="w-8 h-8 rounded-full bg-slate-300 flex items-center justify-center text-slate-600 font-bold text-xs uppercase">
+                    {displayName ? displayName.slice(0, 2) : 'RC'}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium text-slate-700 truncate">Rancho Admin</p>
+                    <p className="text-sm font-medium text-slate-700 truncate">{displayName || 'Rancho Cordova'}</p>
+                    {role && <p className="text-[11px] text-slate-400 capitalize">{role}</p>}
                   </div>
                   <button 
                     onClick={(e) => { e.stopPropagation(); handleLogout(); }}
@@ -320,7 +594,7 @@ export default function Home() {
                    <Sparkles className={`w-8 h-8 ${agentType === 'energy' ? 'text-emerald-500' : 'text-blue-500'}`} />
                 </div>
                 <h2 className="text-2xl font-serif font-medium text-slate-800 mb-3">
-                   Good morning, Admin
+                   Good morning{displayName ? `, ${displayName.split(' ')[0]}` : ''}
                 </h2>
                 <p className="text-slate-500 max-w-md text-[15px] leading-relaxed mb-8">
                   I can help you with {agentType === 'energy' ? 'SMUD rates, usage analytics, and rebate forecasting.' : 'building permits, city events, and general inquiries.'}
@@ -369,38 +643,95 @@ export default function Home() {
                         : 'bg-white text-slate-800 font-serif' 
                     }`}>
                       
-                     
                       <ReactMarkdown
                         remarkPlugins={[remarkGfm]}
                         components={{
-                          
+                        
                           p: ({node, ...props}) => <p className="mb-5 last:mb-0 leading-7 text-slate-700" {...props} />,
-                          
-                          
+                        
+                        
                           ul: ({node, ...props}) => <ul className="list-disc pl-6 mb-5 space-y-3 text-slate-700" {...props} />,
                           ol: ({node, ...props}) => <ol className="list-decimal pl-6 mb-5 space-y-3 text-slate-700" {...props} />,
-                          
+                        
                           // List Items
                           li: ({node, ...props}) => <li className="pl-1 leading-7" {...props} />,
-                          
-                          // Links
-                          a: ({node, ...props}) => <a className="text-blue-600 hover:text-blue-700 hover:underline font-medium transition-colors" target="_blank" {...props} />,
-                          
+                        
+                          // Links; citation markers ([2]) open their passage in the sources panel
+                          a: ({node, href, children, ...props}) => {
+                            if (href?.startsWith(CITATION_HREF_PREFIX)) {
+                              const ref = Number(href.slice(CITATION_HREF_PREFIX.length));
+                              const index = msg.sources?.findIndex(s => s.ref === ref) ?? -1;
+                              return (
+                                <button
+                                  onClick={() => setOpenSource(index === -1 ? null : { messageId: msg.id, index })}
+                                  className="inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 mx-0.5 align-super text-[10px] font-sans font-semibold text-blue-700 bg-blue-50 hover:bg-blue-100 rounded transition-colors"
+                                >
+                                  {children}
+                                </button>
+                              );
+                            }
+                            return <a href={href} className="text-blue-600 hover:text-blue-700 hover:underline font-medium transition-colors" target="_blank" {...props}>{children}</a>;
+                          },
+                        
                           // Bold Text
                           strong: ({node, ...props}) => <strong className="font-semibold text-slate-900" {...props} />,
                         }}
                       >
-                        {msg.content}
+                        {linkCitations(msg.content, msg.sources)}
                       </ReactMarkdown>
 
-                      {msg.chartData && (
+                      {/* Ticket lookups (router or agent) add a card per ticket below the answer */}
+                      {!!msg.tickets?.length && (
+                        <div className="flex flex-col font-sans">
+                          {msg.tickets.map(lookup => <TicketCard key={lookup.id} lookup={lookup} />)}
+                        </div>
+                      )}
+
+                      {msg.serviceRequest && (
+                        <ServiceRequestCard
+                          request={msg.serviceRequest}
+                          onSubmit={msg === activeServiceRequest ? () => sendMessage(undefined, 'Submit the report') : undefined}
+                          onCancel={() => sendMessage(undefined, 'Cancel the report')}
+                          disabled={loading}
+                        />
+                      )}
+
+                      {msg.rejection && (
+                        <div className="mt-3 flex items-start gap-2 px-3 py-2.5 bg-amber-50 border border-amber-100 text-amber-800 text-xs rounded-lg font-sans">
+                          <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                          <div>
+                            <p className="font-semibold">Query blocked</p>
+                            <p>{msg.rejection.message}</p>
+                          </div>
+                        </div>
+                      )}
+
+                      {!!msg.visualizations?.length && (
                         <div className="mt-4 mb-2">
                            <div className="bg-white p-4 rounded-xl border border-slate-100 shadow-sm font-sans">
-                              <ChartDisplay chartData={msg.chartData} />
+                              <VisualizationGrid visualizations={msg.visualizations} />
                            </div>
                         </div>
                       )}
 
+                      {msg.role === 'assistant' && !!msg.sources?.length && (
+                        <SourcesPanel
+                          sources={msg.sources}
+                          selected={openSource?.messageId === msg.id ? openSource.index : null}
+                          onSelect={(index) => setOpenSource(index === null ? null : { messageId: msg.id, index })}
+                        />
+                      )}
+
+                      {msg.role === 'assistant' && msg.queries?.map((query, i) => (
+                        <QueryPanel
+                          key={i}
+                          query={query}
+                          label={msg.queries.length > 1 ? msg.visualizations?.[i]?.title : undefined}
+                          edited={msg.editedQueries?.includes(i)}
+                          onRerun={isStaff(role) ? (sql) => rerunQuery(msg, i, sql) : undefined}
+                        />
+                      ))}
+
                       {msg.role === 'assistant' && (
                         <button 
                           onClick={() => copyToClipboard(msg.content, msg.id)}
@@ -416,7 +747,7 @@ export default function Home() {
               ))}
             </AnimatePresence>
 
-            {loading && (
+            {loading && messages[messages.length - 1]?.role === 'user' && (
               <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex gap-4 mb-8">
                  <div className="w-7 h-7 mt-1 flex-shrink-0 rounded-lg bg-[#F2F2F5] flex items-center justify-center text-slate-500">
                     <Bot className="w-4 h-4" />
@@ -425,6 +756,16 @@ export default function Home() {
                     <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce" />
                     <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce delay-75" />
                     <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce delay-150" />
+                    {pendingRoute && (
+                      <span className="ml-2 text-[11px] font-medium text-slate-400">
+                        {pendingRoute === 'sql' ? 'Querying city data...'
+                          : pendingRoute === 'hybrid' ? 'Checking city data and documents...'
+                          : pendingRoute === 'ticket' ? 'Looking up ticket...'
+                          : pendingRoute === 'intake' ? 'Preparing your report...'
+                          : pendingRoute === 'agent' ? `Working on it${agentSteps ? ` · ${agentSteps} ${agentSteps === 1 ? 'step' : 'steps'}` : ''}...`
+                          : 'Searching documents...'}
+                      </span>
+                    )}
                  </div>
               </motion.div>
             )}
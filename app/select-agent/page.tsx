@@ -1,7 +1,6 @@
 // app/select-agent/page.tsx
 'use client';
 
-import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { ArrowRight, Zap, HeadphonesIcon, LogOut } from 'lucide-react';
@@ -10,21 +9,14 @@ import { motion } from 'framer-motion';
 export default function SelectAgentPage() {
   const router = useRouter();
 
-  // Check authentication
-  useEffect(() => {
-    const isAuthenticated = sessionStorage.getItem('isAuthenticated');
-    if (!isAuthenticated) {
-      router.push('/login');
-    }
-  }, [router]);
-
   const handleAgentSelect = (agentType: 'customer' | 'energy') => {
     // Store the selected agent type
     sessionStorage.setItem('selectedAgent', agentType);
     router.push('/');
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => null);
     sessionStorage.clear();
     router.push('/login');
   };
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestSession } from '@/app/lib/session';
+import { hasRole } from '@/app/lib/roles';
+
+// Paths under the matcher that must stay reachable without a session
+const PUBLIC_API_PATHS = ['/api/auth/login', '/api/auth/logout'];
+
+// Administration pages and APIs (the route handlers check the role as well)
+const isAdminPath = (pathname: string) => pathname.startsWith('/admin') || pathname.startsWith('/api/admin');
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+  if (PUBLIC_API_PATHS.includes(pathname)) return NextResponse.next();
+
+  const session = await getRequestSession(req);
+  if (session && isAdminPath(pathname) && !hasRole(session.role, 'admin')) {
+    return pathname.startsWith('/api/')
+      ? NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+      : NextResponse.redirect(new URL('/', req.url));
+  }
+  if (session) return NextResponse.next();
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL('/login', req.url);
+  loginUrl.searchParams.set('next', pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/', '/select-agent', '/admin/:path*', '/api/:path*'],
+};
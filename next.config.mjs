@@ -2,7 +2,12 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
-  serverExternalPackages: ['@pinecone-database/pinecone'],
+  experimental: {
+    // Loaded with require() at runtime instead of bundled (native onnxruntime
+    // binaries, unpdf's PDF.js worker).
+    // Next 14 reads this key; `serverExternalPackages` only exists from Next 15.
+    serverComponentsExternalPackages: ['@pinecone-database/pinecone', '@xenova/transformers', 'unpdf'],
+  },
   typescript: {
     ignoreBuildErrors: false,
   },
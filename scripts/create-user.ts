@@ -0,0 +1,39 @@
+// Creates a login account, or resets the password of an existing one.
+// Usage: npm run create-user -- <username> <password> [display name] [--role=staff] [--customer=ID]
+
+import { requireBackend } from './loadEnv';
+import { upsertUser } from '../app/lib/users';
+import { ROLES, Role } from '../app/lib/roles';
+
+const USAGE = 'Usage: npm run create-user -- <username> <password> [display name] [--role=resident|staff|admin] [--customer=ID]';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+  const [username, password, ...nameParts] = args.filter(a => !a.startsWith('--'));
+
+  const role = flag('role') as Role | undefined;
+  if (!username || !password || (role && !ROLES.includes(role))) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  requireBackend(
+    Boolean(process.env.SUPABASE_URL) || process.env.USER_STORE === 'file',
+    'SUPABASE_URL is not set (checked the environment, .env and .env.local). Set it, or set USER_STORE=file to save the user to .data/users.json.'
+  );
+
+  const user = await upsertUser({
+    username,
+    password,
+    displayName: nameParts.join(' ') || undefined,
+    role,
+    customerId: flag('customer'),
+  });
+  console.log(`Saved user "${user.username}" (${user.displayName}, ${user.role}) to ${process.env.USER_STORE || 'supabase'}`);
+}
+
+main().catch((e) => {
+  console.error(e.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,140 @@
+// Indexes the knowledge base described by a manifest into the vector store.
+// Usage: npm run ingest -- [--manifest=knowledge/manifest.json] [--force] [--dry-run]
+//
+// Unchanged files (same content hash) are skipped; changed files are
+// re-indexed and files removed from the manifest have their chunks deleted.
+// Sources already in the vector store without a registry entry (indexed by
+// ingestion_pipeline.ipynb) are registered first and otherwise left alone.
+// See knowledge/manifest.example.json for the manifest format.
+
+import { requireBackend } from './loadEnv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { indexDocument, removeDocument, formatFromFilename, hashContent, findUntrackedSources, registerUntrackedSources, DEFAULT_CHUNKING, ChunkingOptions } from '../app/lib/ingestion';
+import { getKnowledgeSourceStore, KNOWLEDGE_AGENTS, KnowledgeAgent, DocumentFormat } from '../app/lib/knowledgeSources';
+
+const USAGE = 'Usage: npm run ingest -- [--manifest=knowledge/manifest.json] [--force] [--dry-run]';
+
+const chunkingSchema = z.object({
+  chunkSize: z.number().int().min(100).optional(),
+  chunkOverlap: z.number().int().min(0).optional(),
+}).optional();
+
+const manifestSchema = z.object({
+  chunking: chunkingSchema,
+  sources: z.array(z.object({
+    path: z.string().min(1),                // file or directory, relative to the manifest
+    agent: z.enum(KNOWLEDGE_AGENTS),
+    chunking: chunkingSchema,
+  })).min(1),
+});
+
+interface ManifestFile {
+  source: string;
+  filePath: string;
+  agent: KnowledgeAgent;
+  format: DocumentFormat;
+  chunking: ChunkingOptions;
+}
+
+// Directories are expanded recursively to every supported file
+async function expandPath(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  const nested = await Promise.all(entries
+    .filter(e => !e.name.startsWith('.'))
+    .map(e => e.isDirectory() ? expandPath(path.join(target, e.name)) : Promise.resolve(formatFromFilename(e.name) ? [path.join(target, e.name)] : [])));
+  return nested.flat().sort();
+}
+
+async function readManifest(manifestPath: string): Promise<ManifestFile[]> {
+  const manifest = manifestSchema.parse(JSON.parse(await fs.readFile(manifestPath, 'utf8')));
+  const baseDir = path.dirname(manifestPath);
+  const files = new Map<string, ManifestFile>();
+
+  for (const entry of manifest.sources) {
+    const chunking = { ...DEFAULT_CHUNKING, ...manifest.chunking, ...entry.chunking };
+    if (chunking.chunkOverlap >= chunking.chunkSize) throw new Error(`chunkOverlap must be smaller than chunkSize (${entry.path})`);
+
+    for (const filePath of await expandPath(path.resolve(baseDir, entry.path))) {
+      const format = formatFromFilename(filePath);
+      if (!format) throw new Error(`Unsupported file type: ${filePath}`);
+
+      // Chunks are keyed by file name, so names must be unique across the manifest
+      const source = path.basename(filePath);
+      const existing = files.get(source);
+      if (existing && existing.filePath !== filePath) throw new Error(`Duplicate source name "${source}": ${existing.filePath} and ${filePath}`);
+      files.set(source, { source, filePath, agent: entry.agent, format, chunking });
+    }
+  }
+  return Array.from(files.values());
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.split('=')[1];
+  if (args.some(a => a === '--help' || a === '-h')) {
+    console.log(USAGE);
+    return;
+  }
+  const force = args.includes('--force');
+  const dryRun = args.includes('--dry-run');
+
+  requireBackend(
+    Boolean(process.env.VECTOR_STORE || process.env.PINECONE_API_KEY),
+    'No vector store is configured (checked the environment, .env and .env.local). Set PINECONE_API_KEY or VECTOR_STORE, e.g. VECTOR_STORE=file for .data/vectors.json.'
+  );
+  requireBackend(
+    Boolean(process.env.KNOWLEDGE_SOURCE_STORE || process.env.SUPABASE_URL),
+    'SUPABASE_URL is not set, so indexed sources would be tracked in .data/. Set it, or set KNOWLEDGE_SOURCE_STORE=file.'
+  );
+
+  const files = await readManifest(path.resolve(flag('manifest') || 'knowledge/manifest.json'));
+  const untracked = dryRun ? await findUntrackedSources() : await registerUntrackedSources();
+  untracked.forEach(s => console.log(`${dryRun ? 'Would register' : 'Registered'} ${s.source} (${s.agent}): ${s.chunkCount} chunks already in the vector store`));
+
+  const registry = getKnowledgeSourceStore();
+  const indexed = new Map([...await registry.list(), ...(dryRun ? untracked : [])].map(s => [s.source, s]));
+
+  let changed = 0, unchanged = 0, removed = 0;
+
+  for (const file of files) {
+    const data = new Uint8Array(await fs.readFile(file.filePath));
+    const previous = indexed.get(file.source);
+
+    if (!force && previous?.contentHash === hashContent(data, file.agent, file.chunking)) {
+      unchanged++;
+      continue;
+    }
+
+    changed++;
+    if (dryRun) {
+      console.log(`Would index ${file.source} (${file.agent})`);
+      continue;
+    }
+    const record = await indexDocument({ source: file.source, agent: file.agent, format: file.format, origin: 'manifest', data, chunking: file.chunking });
+    console.log(`${previous ? 'Re-indexed' : 'Indexed'} ${record.source} (${record.agent}): ${record.chunkCount} chunks`);
+  }
+
+  // Uploads from the admin console are not part of the manifest and are left alone
+  const manifestSources = new Set(files.map(f => f.source));
+  for (const source of Array.from(indexed.values())) {
+    if (source.origin !== 'manifest' || manifestSources.has(source.source)) continue;
+    removed++;
+    if (dryRun) {
+      console.log(`Would remove ${source.source}`);
+      continue;
+    }
+    await removeDocument(source.source);
+    console.log(`Removed ${source.source}`);
+  }
+
+  console.log(`${dryRun ? 'Dry run: ' : ''}${changed} indexed, ${unchanged} unchanged, ${removed} removed`);
+}
+
+main().catch((e) => {
+  console.error(e instanceof z.ZodError ? `Invalid manifest: ${e.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}` : e.message || e);
+  process.exit(1);
+});
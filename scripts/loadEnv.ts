@@ -0,0 +1,17 @@
+// Loads .env, .env.local and the NODE_ENV-specific files the way `next dev`
+// does, so the CLI scripts write to the same backends as the app. Import it
+// before any app module: some read their settings when they load.
+
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd());
+
+/**
+ * Exits with `message` unless `configured`. Without their backend settings
+ * the stores fall back to .data/ files, which a deployed app never reads.
+ */
+export function requireBackend(configured: boolean, message: string) {
+  if (configured) return;
+  console.error(message);
+  process.exit(1);
+}
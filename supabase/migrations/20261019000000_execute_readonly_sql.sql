@@ -0,0 +1,24 @@
+-- Read-only SQL runner used by the analytics path (/api/chat).
+-- Queries are validated by app/lib/sqlGuard.ts before they get here; this
+-- function adds a statement timeout and returns rows (or the error) as JSON.
+-- Declaring it STABLE makes Postgres refuse any write the query attempts.
+
+create or replace function public.execute_readonly_sql(query_text text)
+returns json
+language plpgsql
+stable
+set statement_timeout to '8s'
+as $$
+declare
+  result json;
+begin
+  execute format('select coalesce(json_agg(q), ''[]''::json) from (%s) q', query_text)
+    into result;
+  return result;
+exception when others then
+  return json_build_object('error', sqlerrm);
+end;
+$$;
+
+revoke all on function public.execute_readonly_sql(text) from public, anon, authenticated;
+grant execute on function public.execute_readonly_sql(text) to service_role;
@@ -0,0 +1,27 @@
+-- Persistent chat history (app/lib/conversationStore.ts).
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  agent_type text not null default 'customer',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.conversation_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  chart_data jsonb,
+  sources jsonb,
+  rejection jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversations_updated_at_idx on public.conversations (updated_at desc);
+create index if not exists conversation_messages_conversation_idx on public.conversation_messages (conversation_id, created_at);
+
+-- Only the server (service role) reads or writes chat history.
+alter table public.conversations enable row level security;
+alter table public.conversation_messages enable row level security;
@@ -0,0 +1,12 @@
+-- Login accounts (app/lib/users.ts). Passwords are stored as scrypt hashes;
+-- create accounts with `npm run create-user`.
+
+create table if not exists public.app_users (
+  id uuid primary key default gen_random_uuid(),
+  username text not null unique,
+  display_name text not null,
+  password_hash text not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.app_users enable row level security;
@@ -0,0 +1,12 @@
+-- Roles for app users, and per-user ownership of conversations.
+
+alter table public.app_users
+  add column if not exists role text not null default 'resident'
+    check (role in ('resident', 'staff', 'admin')),
+  add column if not exists customer_id text;
+
+-- Conversations created before ownership existed stay unowned (visible to no one).
+alter table public.conversations
+  add column if not exists owner_id uuid references public.app_users (id) on delete cascade;
+
+create index if not exists conversations_owner_idx on public.conversations (owner_id, updated_at desc);
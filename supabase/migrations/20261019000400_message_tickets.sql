@@ -0,0 +1,4 @@
+-- Ticket lookup results shown as cards in chat (app/lib/tickets.ts).
+
+alter table public.conversation_messages
+  add column if not exists tickets jsonb;
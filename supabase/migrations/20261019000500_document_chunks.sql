@@ -0,0 +1,37 @@
+-- Knowledge-base chunks for VECTOR_STORE=supabase (app/lib/vectorStore.ts).
+-- Embeddings are all-MiniLM-L6-v2 (384 dimensions).
+
+create extension if not exists vector;
+
+create table if not exists public.document_chunks (
+  id text primary key,
+  source text not null,
+  metadata jsonb not null,
+  embedding vector(384) not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists document_chunks_source_idx on public.document_chunks (source);
+create index if not exists document_chunks_embedding_idx on public.document_chunks using hnsw (embedding vector_cosine_ops);
+
+alter table public.document_chunks enable row level security;
+
+-- Cosine similarity search; `filter` is matched with jsonb containment ({"agent": "energy"}).
+create or replace function public.match_document_chunks(
+  query_embedding vector(384),
+  match_count int,
+  filter jsonb default '{}'
+)
+returns table (id text, metadata jsonb, score double precision)
+language sql
+stable
+as $$
+  select c.id, c.metadata, 1 - (c.embedding <=> query_embedding) as score
+  from public.document_chunks c
+  where c.metadata @> filter
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+revoke all on function public.match_document_chunks(vector, int, jsonb) from public;
+grant execute on function public.match_document_chunks(vector, int, jsonb) to service_role;
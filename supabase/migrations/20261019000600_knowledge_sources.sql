@@ -0,0 +1,16 @@
+-- Indexed knowledge-base documents (app/lib/knowledgeSources.ts).
+-- One row per source file; the chunks themselves live in the vector store.
+
+create table if not exists public.knowledge_sources (
+  source text primary key,
+  agent text not null check (agent in ('energy', 'customer')),
+  format text not null check (format in ('pdf', 'csv', 'markdown', 'html')),
+  origin text not null default 'manifest' check (origin in ('manifest', 'upload')),
+  content_hash text not null,
+  chunk_count integer not null default 0,
+  indexed_at timestamptz not null default now()
+);
+
+create index if not exists knowledge_sources_agent_idx on public.knowledge_sources (agent);
+
+alter table public.knowledge_sources enable row level security;
@@ -0,0 +1,10 @@
+-- Chunking settings per knowledge source and a private bucket for the
+-- original files, so the admin console can re-index a source (app/lib/knowledgeSources.ts).
+
+alter table public.knowledge_sources
+  add column if not exists chunk_size integer not null default 800,
+  add column if not exists chunk_overlap integer not null default 100;
+
+insert into storage.buckets (id, name, public)
+values ('knowledge-sources', 'knowledge-sources', false)
+on conflict (id) do nothing;
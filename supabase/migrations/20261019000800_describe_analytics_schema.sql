@@ -0,0 +1,50 @@
+-- Schema introspection for the analytics path (app/lib/analyticsSchema.ts).
+-- Returns one row per column of the requested public tables, with the
+-- distinct values of low-cardinality text columns (e.g. tickets.category) so
+-- the SQL prompt can name real categories. Columns with more than
+-- `max_distinct` values get `values: null`.
+
+create or replace function public.describe_analytics_schema(table_names text[], max_distinct int default 12)
+returns json
+language plpgsql
+stable
+set statement_timeout to '15s'
+as $$
+declare
+  col record;
+  vals json;
+  result jsonb := '[]'::jsonb;
+begin
+  for col in
+    select c.table_name, c.column_name,
+           case when c.data_type = 'USER-DEFINED' then c.udt_name else c.data_type end as data_type,
+           c.data_type in ('text', 'character varying', 'character', 'USER-DEFINED') as categorical
+    from information_schema.columns c
+    where c.table_schema = 'public' and c.table_name = any(table_names)
+    order by c.table_name, c.ordinal_position
+  loop
+    vals := null;
+    if col.categorical then
+      execute format(
+        'select json_agg(v order by v) from (select distinct %I::text as v from public.%I where %I is not null limit %s) s',
+        col.column_name, col.table_name, col.column_name, max_distinct + 1
+      ) into vals;
+      if json_array_length(vals) > max_distinct then
+        vals := null;
+      end if;
+    end if;
+
+    result := result || jsonb_build_array(jsonb_build_object(
+      'table', col.table_name,
+      'column', col.column_name,
+      'type', col.data_type,
+      'values', vals
+    ));
+  end loop;
+
+  return result::json;
+end;
+$$;
+
+revoke all on function public.describe_analytics_schema(text[], int) from public, anon, authenticated;
+grant execute on function public.describe_analytics_schema(text[], int) to service_role;
@@ -0,0 +1,5 @@
+-- "Show your work" details for database answers: executed SQL, row count,
+-- timing and result rows (app/lib/analyticsQuery.ts).
+
+alter table public.conversation_messages
+  add column if not exists query jsonb;
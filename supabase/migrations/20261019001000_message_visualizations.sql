@@ -0,0 +1,18 @@
+-- Database answers can hold several visualizations (one per sub-query), each
+-- with the query behind it. The single-value columns become ordered arrays.
+
+alter table public.conversation_messages
+  add column if not exists visualizations jsonb,
+  add column if not exists queries jsonb;
+
+update public.conversation_messages
+  set visualizations = jsonb_build_array(chart_data)
+  where chart_data is not null and visualizations is null;
+
+update public.conversation_messages
+  set queries = jsonb_build_array(query)
+  where query is not null and queries is null;
+
+alter table public.conversation_messages
+  drop column if exists chart_data,
+  drop column if exists query;
@@ -0,0 +1,37 @@
+-- Service requests filed from chat ("Report a pothole") become rows in the
+-- call log (app/lib/serviceRequests.ts). New tickets get the next CL-style ID
+-- from a sequence that continues after the highest existing one.
+
+alter table public.tickets
+  add column if not exists location text,
+  add column if not exists description text,
+  add column if not exists contact_name text,
+  add column if not exists contact_phone text,
+  add column if not exists contact_email text,
+  add column if not exists created_by text,      -- app_users.id of the resident who filed it
+  add column if not exists source text;          -- 'chat' for requests filed here
+
+create sequence if not exists public.ticket_number_seq;
+
+select setval(
+  'public.ticket_number_seq',
+  coalesce((select max(nullif(regexp_replace(call_id, '\D', '', 'g'), '')::bigint) from public.tickets), 0) + 1,
+  false
+);
+
+-- "CL" + at least 4 digits (CL0093, CL12345), matching app/lib/tickets.ts
+create or replace function public.next_ticket_id()
+returns text
+language sql
+volatile
+as $$
+  select 'CL' || lpad(n::text, greatest(4, length(n::text)), '0')
+  from (select nextval('public.ticket_number_seq') as n) s;
+$$;
+
+revoke all on function public.next_ticket_id() from public, anon, authenticated;
+grant execute on function public.next_ticket_id() to service_role;
+
+-- Intake state shown as a confirmation card in chat
+alter table public.conversation_messages
+  add column if not exists service_request jsonb;
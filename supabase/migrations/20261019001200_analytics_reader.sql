@@ -0,0 +1,37 @@
+-- Analytics queries run as analytics_reader instead of service_role.
+-- service_role bypasses row-level security and can read every table
+-- (app_users included), so a query that slipped past app/lib/sqlGuard.ts
+-- could dump the database. analytics_reader can only SELECT the reporting
+-- columns of the analytics tables. The app calls execute_readonly_sql with a
+-- short-lived JWT for this role (getAnalyticsSupabase in app/lib/supabase.ts),
+-- which needs SUPABASE_JWT_SECRET.
+
+do $$
+begin
+  if not exists (select 1 from pg_roles where rolname = 'analytics_reader') then
+    create role analytics_reader nologin noinherit;
+  end if;
+end
+$$;
+
+-- PostgREST switches to the role named in the request's JWT
+grant analytics_reader to authenticator;
+grant usage on schema public to analytics_reader;
+
+-- Same columns as ALLOWED_TABLES in app/lib/sqlGuard.ts
+grant select (call_id, customer_id, created_at, category, agent, resolution) on public.tickets to analytics_reader;
+grant select (customer_id, account_type, month_date, consumption_kwh) on public.energy_usage to analytics_reader;
+grant select (account_id, reading_time, kwh) on public.meter_readings to analytics_reader;
+
+-- Tables with row-level security enabled need a policy for the role
+drop policy if exists analytics_reader_select on public.tickets;
+create policy analytics_reader_select on public.tickets for select to analytics_reader using (true);
+drop policy if exists analytics_reader_select on public.energy_usage;
+create policy analytics_reader_select on public.energy_usage for select to analytics_reader using (true);
+drop policy if exists analytics_reader_select on public.meter_readings;
+create policy analytics_reader_select on public.meter_readings for select to analytics_reader using (true);
+
+revoke all on function public.execute_readonly_sql(text) from public, anon, authenticated, service_role;
+grant execute on function public.execute_readonly_sql(text) to analytics_reader;
+
+notify pgrst, 'reload schema';
@@ -0,0 +1,30 @@
+-- The 8s limit on analytics queries, enforced. A `set statement_timeout`
+-- clause on execute_readonly_sql only changes the setting once the function
+-- is already running, and the timer of the statement that called it has
+-- started by then, so it never fired. PostgREST applies the settings of the
+-- role it switches to before each request, so the limit goes on the role.
+-- Postgres cancels a query that exceeds it (SQLSTATE 57014); the client-side
+-- abort in app/lib/analyticsQuery.ts only drops the HTTP request.
+
+alter role analytics_reader set statement_timeout = '8s';
+
+-- Same function, without the ineffective clause
+create or replace function public.execute_readonly_sql(query_text text)
+returns json
+language plpgsql
+stable
+as $$
+declare
+  result json;
+begin
+  execute format('select coalesce(json_agg(q), ''[]''::json) from (%s) q', query_text)
+    into result;
+  return result;
+exception when others then
+  -- query_canceled (the timeout) is not caught by OTHERS and fails the request
+  return json_build_object('error', sqlerrm);
+end;
+$$;
+
+notify pgrst, 'reload config';
+notify pgrst, 'reload schema';
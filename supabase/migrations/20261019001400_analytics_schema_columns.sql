@@ -0,0 +1,65 @@
+-- describe_analytics_schema takes the columns to describe, so columns the
+-- analytics path must not see never reach the SQL prompt. The service request
+-- columns on tickets (contact_name, contact_phone, contact_email, location,
+-- description, created_by) hold residents' personal details, and with only a
+-- few requests filed their distinct values would be listed in every prompt.
+--
+-- column_names holds "table.column" entries (app/lib/analyticsSchema.ts passes
+-- ALLOWED_TABLES from app/lib/sqlGuard.ts). A table with no entries is
+-- described in full; null describes every column.
+
+drop function if exists public.describe_analytics_schema(text[], int);
+
+create or replace function public.describe_analytics_schema(
+  table_names text[],
+  max_distinct int default 12,
+  column_names text[] default null
+)
+returns json
+language plpgsql
+stable
+set statement_timeout to '15s'
+as $$
+declare
+  col record;
+  vals json;
+  result jsonb := '[]'::jsonb;
+begin
+  for col in
+    select c.table_name, c.column_name,
+           case when c.data_type = 'USER-DEFINED' then c.udt_name else c.data_type end as data_type,
+           c.data_type in ('text', 'character varying', 'character', 'USER-DEFINED') as categorical
+    from information_schema.columns c
+    where c.table_schema = 'public' and c.table_name = any(table_names)
+      and (
+        column_names is null
+        or (c.table_name || '.' || c.column_name) = any(column_names)
+        or not exists (select 1 from unnest(column_names) n where split_part(n, '.', 1) = c.table_name)
+      )
+    order by c.table_name, c.ordinal_position
+  loop
+    vals := null;
+    if col.categorical then
+      execute format(
+        'select json_agg(v order by v) from (select distinct %I::text as v from public.%I where %I is not null limit %s) s',
+        col.column_name, col.table_name, col.column_name, max_distinct + 1
+      ) into vals;
+      if json_array_length(vals) > max_distinct then
+        vals := null;
+      end if;
+    end if;
+
+    result := result || jsonb_build_array(jsonb_build_object(
+      'table', col.table_name,
+      'column', col.column_name,
+      'type', col.data_type,
+      'values', vals
+    ));
+  end loop;
+
+  return result::json;
+end;
+$$;
+
+revoke all on function public.describe_analytics_schema(text[], int, text[]) from public, anon, authenticated;
+grant execute on function public.describe_analytics_schema(text[], int, text[]) to service_role;
@@ -0,0 +1,22 @@
+-- Every source in document_chunks with its agent and chunk count
+-- (app/lib/vectorStore.ts), so chunks indexed before the knowledge_sources
+-- registry existed can be registered.
+
+create or replace function public.list_document_sources()
+returns table (source text, agent text, chunk_count bigint)
+language sql
+stable
+as $$
+  select c.source, min(c.metadata->>'agent') as agent, count(*) as chunk_count
+  from public.document_chunks c
+  group by c.source
+  order by c.source;
+$$;
+
+revoke all on function public.list_document_sources() from public;
+grant execute on function public.list_document_sources() to service_role;
+
+-- Registry entries for those chunks; their original files were never kept
+alter table public.knowledge_sources drop constraint if exists knowledge_sources_origin_check;
+alter table public.knowledge_sources
+  add constraint knowledge_sources_origin_check check (origin in ('manifest', 'upload', 'notebook'));
@@ -0,0 +1,100 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { z } from 'zod';
+import { runAgent, AgentTool } from '../app/lib/agent';
+import { setProvider, createFakeProvider, FakeResponder, LLMMessage } from '../app/lib/llm';
+
+before(() => { process.env.LLM_AGENT_MODEL = 'fake:agent'; });
+after(() => {
+  delete process.env.LLM_AGENT_MODEL;
+  setProvider('fake', null);
+});
+
+const lookupArgs = z.object({ account: z.string() });
+
+const lookup: AgentTool<z.infer<typeof lookupArgs>> = {
+  name: 'lookup_account',
+  description: 'Finds an account',
+  parameters: lookupArgs,
+  run: async ({ account }) => `Account ${account}: active`,
+};
+
+const question: LLMMessage[] = [{ role: 'user', content: 'Is account 42 active?' }];
+const toolCalls = (...calls: { name: string; arguments?: unknown }[]) => JSON.stringify({ toolCalls: calls });
+const lastMessage = (messages: LLMMessage[]) => messages[messages.length - 1].content;
+
+// Replies with the scripted turns in order, recording what the model saw each time
+const scripted = (...replies: string[]) => {
+  const seen: LLMMessage[][] = [];
+  const responder: FakeResponder = ({ messages }) => {
+    seen.push(messages);
+    return replies[seen.length - 1] ?? 'out of script';
+  };
+  setProvider('fake', createFakeProvider(responder));
+  return seen;
+};
+
+test('runs the requested tools and returns the text answer', async () => {
+  const seen = scripted(toolCalls({ name: 'lookup_account', arguments: { account: '42' } }), ' Account 42 is active. ');
+  const steps: string[] = [];
+  const result = await runAgent({ messages: question, tools: [lookup], onStep: s => steps.push(s.tool) });
+
+  assert.equal(result.answer, 'Account 42 is active.');
+  assert.equal(result.exhausted, false);
+  assert.deepEqual(steps, ['lookup_account']);
+  assert.deepEqual(result.trace.map(({ durationMs, ...s }) => s), [
+    { step: 1, tool: 'lookup_account', args: { account: '42' }, ok: true, output: 'Account 42: active' },
+  ]);
+  assert.equal(lastMessage(seen[1]), '[lookup_account] Account 42: active');
+});
+
+test('reports unknown tools back to the model', async () => {
+  const seen = scripted(toolCalls({ name: 'delete_account', arguments: { account: '42' } }), 'I cannot do that.');
+  const result = await runAgent({ messages: question, tools: [lookup] });
+
+  assert.deepEqual(result.trace.map(s => [s.tool, s.ok, s.output]), [['delete_account', false, 'Error: unknown tool "delete_account".']]);
+  assert.equal(lastMessage(seen[1]), '[delete_account] Error: unknown tool "delete_account".');
+  assert.equal(result.answer, 'I cannot do that.');
+});
+
+test('reports invalid arguments without running the tool', async () => {
+  let runs = 0;
+  const counted = { ...lookup, run: async (args: z.infer<typeof lookupArgs>) => { runs++; return lookup.run(args); } };
+  scripted(toolCalls({ name: 'lookup_account', arguments: { account: 42 } }, { name: 'lookup_account' }), 'Missing account.');
+  const result = await runAgent({ messages: question, tools: [counted] });
+
+  assert.equal(runs, 0);
+  assert.deepEqual(result.trace.map(s => s.ok), [false, false]);
+  for (const step of result.trace) assert.match(step.output, /^Error: invalid arguments \(account: /);
+});
+
+test('stops after the step budget and answers in a closing round', async () => {
+  const call = toolCalls({ name: 'lookup_account', arguments: { account: '42' } });
+  const seen = scripted(call, call, 'Account 42 is active, but its history was not found.');
+  const result = await runAgent({ messages: question, tools: [lookup], maxSteps: 2 });
+
+  assert.equal(result.exhausted, true);
+  assert.deepEqual(result.trace.map(s => s.step), [1, 2]);
+  assert.equal(seen.length, 3);
+  assert.match(lastMessage(seen[2]), /^You have used all your tool calls/);
+  assert.equal(result.answer, 'Account 42 is active, but its history was not found.');
+});
+
+test('writes the closing answer with streamAnswer when given', async () => {
+  scripted(toolCalls({ name: 'lookup_account', arguments: { account: '42' } }));
+  let written: LLMMessage[] = [];
+  const result = await runAgent({
+    messages: question,
+    tools: [lookup],
+    maxSteps: 1,
+    streamAnswer: async messages => { written = messages; return 'Streamed answer.'; },
+  });
+
+  assert.equal(result.exhausted, true);
+  assert.equal(result.answer, 'Streamed answer.');
+  assert.deepEqual(written.slice(1, 3), [
+    { role: 'assistant', content: 'Calling lookup_account with {"account":"42"}' },
+    { role: 'user', content: 'Result of lookup_account:\nAccount 42: active' },
+  ]);
+  assert.match(lastMessage(written), /^You have used all your tool calls/);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { planSubQueries, MAX_SUB_QUERIES } from '../app/lib/analyticsPlan';
+
+const planner = (text: string) => async () => text;
+
+test('answers simple questions without asking the planner', async () => {
+  const question = 'Total consumption by month in 2024';
+  assert.deepEqual(await planSubQueries(question, '', () => assert.fail('planner called')), [question]);
+});
+
+test('splits compound questions into the planned sub-questions', async () => {
+  const plan = 'Plan:\n```json\n{"questions": [" Usage by account type ", "Ticket count by category"]}\n```';
+  assert.deepEqual(await planSubQueries('Usage by account type and the ticket breakdown', '', planner(plan)),
+    ['Usage by account type', 'Ticket count by category']);
+});
+
+test(`keeps at most ${MAX_SUB_QUERIES} sub-questions`, async () => {
+  const questions = ['a', 'b', 'c', 'd', 'e'].map(q => `report ${q}`);
+  const planned = await planSubQueries('a, b, c, d and e', '', planner(JSON.stringify({ questions })));
+  assert.deepEqual(planned, questions.slice(0, MAX_SUB_QUERIES));
+});
+
+test('answers as one query when the plan is unusable', async () => {
+  const question = 'Calls by category and usage by month';
+  for (const output of ['no plan', '{"questions": []}', '{"questions": ["", "  "]}', '{"questions": "a"}', '{"questions": [']) {
+    assert.deepEqual(await planSubQueries(question, '', planner(output)), [question], output);
+  }
+  assert.deepEqual(await planSubQueries(question, '', async () => { throw new Error('model down'); }), [question]);
+});
@@ -0,0 +1,19 @@
+// Needs a Supabase project with the analytics_reader migrations applied
+// (SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, SUPABASE_JWT_SECRET); skipped otherwise.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { executeReadonlySql } from '../app/lib/analyticsQuery';
+import { STATEMENT_TIMEOUT_MS } from '../app/lib/sqlGuard';
+
+const configured = Boolean(process.env.SUPABASE_URL && process.env.SUPABASE_JWT_SECRET);
+
+test('Postgres cancels analytics queries that run past the statement timeout', { skip: !configured && 'Supabase is not configured' }, async () => {
+  // ~10^10 rows to count: minutes of work, without pg_sleep
+  const run = await executeReadonlySql('SELECT count(*) FROM generate_series(1, 100000) a, generate_series(1, 100000) b');
+
+  assert.equal(run.ok, false);
+  // A server-side cancellation, not the client giving up on the request
+  assert.equal(run.ok === false && run.connectionError, false);
+  assert.match(run.ok === false ? run.error : '', /cancelled/);
+  assert.ok(run.durationMs < STATEMENT_TIMEOUT_MS + 2000, `took ${run.durationMs} ms`);
+});
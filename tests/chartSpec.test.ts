@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseChartChoices, toNumber } from '../app/lib/chartSpec';
+
+test('parses chart choices from the last JSON block', () => {
+  const text = 'Usage rose.\n```json\n{"chart": "line", "title": "Usage", "explanation": "Up"}\n```';
+  const [choice] = parseChartChoices(text);
+  assert.equal(choice?.chart, 'line');
+  assert.equal(choice?.title, 'Usage');
+});
+
+test('pads missing or invalid choices with null', () => {
+  const text = '```json\n[{"chart": "bar", "title": "A", "explanation": ""}, {"chart": "nonsense"}]\n```';
+  const choices = parseChartChoices(text, 3);
+  assert.equal(choices[0]?.chart, 'bar');
+  assert.equal(choices[1], null);
+  assert.equal(choices[2], null);
+  assert.deepEqual(parseChartChoices('no json here', 1), [null]);
+});
+
+test('reads numbers from Postgres numeric strings', () => {
+  assert.equal(toNumber('12.5'), 12.5);
+  assert.equal(toNumber('abc'), null);
+});
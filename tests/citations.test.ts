@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { citedRefs, citedSources, linkCitations, CITATION_HREF_PREFIX } from '../app/lib/citations';
+
+const sources = [1, 2, 3, 4].map(ref => ({ source: `doc-${ref}`, score: 1, ref }));
+
+test('collects cited passage numbers', () => {
+  assert.deepEqual(Array.from(citedRefs('Peak is 5-8 p.m. [2], rebates apply [1, 3].')).sort(), [1, 2, 3]);
+});
+
+test('returns cited sources, or the best ones when nothing is cited', () => {
+  assert.deepEqual(citedSources('See [4].', sources).map(s => s.ref), [4]);
+  assert.deepEqual(citedSources('No markers.', sources, 2).map(s => s.ref), [1, 2]);
+});
+
+test('links known markers and leaves unknown ones alone', () => {
+  assert.equal(linkCitations('A [2]. B [9].', sources), `A [2](${CITATION_HREF_PREFIX}2). B [9].`);
+  assert.equal(linkCitations('A [2].', []), 'A [2].');
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkDocument, formatFromFilename, hashContent, loadDocument, splitText, DEFAULT_CHUNKING } from '../app/lib/ingestion';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const words = (count: number) => Array.from({ length: count }, (_, i) => `w${String(i).padStart(2, '0')}`).join(' ');
+
+test('splits on the coarsest separator that fits', () => {
+  assert.deepEqual(splitText('aaaa bbbb\n\ncccc dddd', { chunkSize: 10, chunkOverlap: 0 }), ['aaaa bbbb', 'cccc dddd']);
+  assert.deepEqual(splitText('x'.repeat(25), { chunkSize: 10, chunkOverlap: 0 }), ['x'.repeat(10), 'x'.repeat(10), 'x'.repeat(5)]);
+  assert.deepEqual(splitText('short', DEFAULT_CHUNKING), ['short']);
+});
+
+test('repeats the tail of each chunk at the start of the next', () => {
+  const chunks = splitText(words(30), { chunkSize: 40, chunkOverlap: 12 });
+  assert.equal(chunks.length, 4);
+  chunks.forEach(chunk => assert.ok(chunk.length <= 40, chunk));
+  for (let i = 1; i < chunks.length; i++) {
+    const overlap = chunks[i - 1].split(' ').slice(-3).join(' ');
+    assert.ok(chunks[i].startsWith(overlap), `chunk ${i} should start with "${overlap}"`);
+  }
+  assert.ok(chunks[0].startsWith('w00') && chunks[chunks.length - 1].endsWith('w29'));
+});
+
+test('loads CSV rows with quoted commas, quotes and newlines', async () => {
+  const csv = 'name,notes\r\n"Smith, J","line one\nline two"\n"Say ""hi""",\n,\nlast,row';
+  assert.deepEqual((await loadDocument(encode(csv), 'csv')).map(s => s.text), [
+    'name: Smith, J | notes: line one\nline two',
+    'name: Say "hi"',
+    'name: last | notes: row',
+  ]);
+});
+
+test('keeps CSV rows whole and chunks other formats', () => {
+  const long = words(300);
+  assert.equal(chunkDocument([{ text: long }], 'csv', DEFAULT_CHUNKING).length, 1);
+  const chunks = chunkDocument([{ text: long, page: 3 }], 'pdf', DEFAULT_CHUNKING);
+  assert.ok(chunks.length > 1);
+  assert.ok(chunks.every(c => c.page === 3));
+});
+
+test('drops Markdown front matter and HTML markup', async () => {
+  const [markdown] = await loadDocument(encode('---\ntitle: Rebates\n---\n# Rebates\nUp to $50.'), 'markdown');
+  assert.equal(markdown.text, '# Rebates\nUp to $50.');
+  const [html] = await loadDocument(encode('<style>p{}</style><p>Peak &amp; off&#8209;peak</p><script>x()</script>'), 'html');
+  assert.equal(html.text.trim(), 'Peak & off‑peak');
+});
+
+test('changes the content hash with the data, agent or chunking', () => {
+  const data = encode('same file');
+  const base = hashContent(data, 'energy', DEFAULT_CHUNKING);
+  assert.equal(hashContent(encode('same file'), 'energy', DEFAULT_CHUNKING), base);
+  assert.notEqual(hashContent(encode('other file'), 'energy', DEFAULT_CHUNKING), base);
+  assert.notEqual(hashContent(data, 'customer', DEFAULT_CHUNKING), base);
+  assert.notEqual(hashContent(data, 'energy', { ...DEFAULT_CHUNKING, chunkOverlap: 50 }), base);
+});
+
+test('maps file extensions to formats', () => {
+  assert.equal(formatFromFilename('Rates.PDF'), 'pdf');
+  assert.equal(formatFromFilename('faq.htm'), 'html');
+  assert.equal(formatFromFilename('notes.txt'), null);
+});
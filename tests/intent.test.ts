@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyIntent, classifyWithRegex } from '../app/lib/intent';
+
+// A classifier that always answers `text`
+const replying = (text: string) => async () => text;
+
+test('uses the classifier route and confidence', async () => {
+  const result = await classifyIntent('How many calls last month?', 'customer',
+    replying('Sure: {"route":"sql","confidence":0.92,"reason":"counts tickets"}'));
+  assert.deepEqual(result, { route: 'sql', confidence: 0.92, source: 'llm', reason: 'counts tickets' });
+});
+
+test('clamps confidence to 0..1', async () => {
+  assert.equal((await classifyIntent('q', 'energy', replying('{"route":"vector","confidence":3}'))).confidence, 1);
+  assert.equal((await classifyIntent('q', 'energy', replying('{"route":"vector","confidence":-1}'))).confidence, 0);
+});
+
+test('falls back to the keyword patterns on unusable output', async () => {
+  for (const output of ['no json', '{"route":"web","confidence":0.9}', '{"route":"sql","confidence":"high"}', '{"route":']) {
+    const result = await classifyIntent('Plot total usage by month', 'energy', replying(output));
+    assert.deepEqual(result, { route: 'sql', confidence: 0.7, source: 'regex' }, output);
+  }
+  const failing = async () => { throw new Error('model down'); };
+  assert.equal((await classifyIntent('How do I apply for a permit?', 'customer', failing)).source, 'regex');
+});
+
+test('routes ticket IDs to the database without asking the model', async () => {
+  const result = await classifyIntent('status of cl92', 'customer', () => assert.fail('classifier called'));
+  assert.deepEqual(result, { route: 'sql', confidence: 1, source: 'ticket' });
+});
+
+test('keyword fallback prefers documents when both patterns match', () => {
+  assert.deepEqual(classifyWithRegex('How many calls about billing?'), { route: 'sql', confidence: 0.7, source: 'regex' });
+  assert.deepEqual(classifyWithRegex('What rebate programs are there?'), { route: 'vector', confidence: 0.7, source: 'regex' });
+  assert.deepEqual(classifyWithRegex('Total savings from the rebate program'), { route: 'vector', confidence: 0.5, source: 'regex' });
+  assert.deepEqual(classifyWithRegex('Hello there'), { route: 'vector', confidence: 0.5, source: 'regex' });
+});
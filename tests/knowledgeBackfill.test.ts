@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const dir = mkdtempSync(path.join(tmpdir(), 'knowledge-'));
+process.env.VECTOR_STORE = 'memory';
+process.env.KNOWLEDGE_SOURCE_STORE = 'file';
+process.env.KNOWLEDGE_SOURCE_STORE_PATH = path.join(dir, 'sources.json');
+process.env.KNOWLEDGE_FILES_DIR = path.join(dir, 'files');
+
+// Chunks as ingestion_pipeline.ipynb wrote them: "<source>_<n>" IDs, text/source/agent metadata
+const notebookChunks = (source: string, agent: string, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `${source}_${i}`, values: [1, 0], metadata: { text: `chunk ${i}`, source, agent } }));
+
+test('registers sources the notebook indexed, once', async (t) => {
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+  const { getVectorStore } = await import('../app/lib/vectorStore');
+  const { getKnowledgeSourceStore } = await import('../app/lib/knowledgeSources');
+  const { findUntrackedSources, registerUntrackedSources } = await import('../app/lib/ingestion');
+
+  await getVectorStore().upsert([
+    ...notebookChunks('SMUD_rates.pdf', 'energy', 3),
+    ...notebookChunks('city_faq.csv', 'customer', 2),
+    ...notebookChunks('notes.txt', 'customer', 1),        // unknown format
+    ...notebookChunks('other.pdf', 'water', 1),           // unknown agent
+    ...notebookChunks('tracked.pdf', 'energy', 1),
+  ]);
+  await getKnowledgeSourceStore().save({
+    source: 'tracked.pdf', agent: 'energy', format: 'pdf', origin: 'manifest', contentHash: 'abc',
+    chunkSize: 800, chunkOverlap: 100, chunkCount: 1, indexedAt: new Date().toISOString(),
+  });
+
+  const found = await findUntrackedSources();
+  assert.deepEqual(found.map(s => [s.source, s.agent, s.format, s.origin, s.chunkCount]).sort(), [
+    ['SMUD_rates.pdf', 'energy', 'pdf', 'notebook', 3],
+    ['city_faq.csv', 'customer', 'csv', 'notebook', 2],
+  ]);
+  assert.equal((await getKnowledgeSourceStore().list()).length, 1, 'finding does not write');
+
+  await registerUntrackedSources();
+  assert.deepEqual((await getKnowledgeSourceStore().list('energy')).map(s => s.source), ['SMUD_rates.pdf', 'tracked.pdf']);
+  assert.deepEqual(await findUntrackedSources(), []);
+});
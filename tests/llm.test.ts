@@ -0,0 +1,124 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  complete, stream, completeWithTools, resolveStage, setProvider, createFakeProvider, LLMProvider,
+} from '../app/lib/llm';
+
+const MODEL_ENV = ['LLM_MODEL', 'LLM_ROUTING_MODEL', 'LLM_SQL_MODEL', 'LLM_CHART_MODEL', 'LLM_ANSWER_MODEL', 'LLM_AGENT_MODEL', 'LLM_FALLBACK_MODEL'];
+
+const reset = () => {
+  for (const name of MODEL_ENV) delete process.env[name];
+  for (const name of ['failing', 'backup']) setProvider(name, null);
+};
+
+reset();
+afterEach(reset);
+
+const failing = (message: string): LLMProvider => ({
+  name: 'failing',
+  complete: async () => { throw new Error(message); },
+  stream: async function* () { throw new Error(message); },
+  completeWithTools: async () => { throw new Error(message); },
+});
+
+const collect = async (chunks: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of chunks) text += chunk;
+  return text;
+};
+
+test('resolves each stage from its own variable, then LLM_MODEL, then the default', () => {
+  assert.deepEqual(resolveStage('sql').primary, { provider: 'groq', model: 'llama-3.3-70b-versatile' });
+
+  process.env.LLM_MODEL = 'openai:gpt-4o-mini';
+  process.env.LLM_SQL_MODEL = 'local:qwen2.5-coder:7b';
+  assert.deepEqual(resolveStage('sql').primary, { provider: 'local', model: 'qwen2.5-coder:7b' });
+  assert.deepEqual(resolveStage('answer').primary, { provider: 'openai', model: 'gpt-4o-mini' });
+
+  process.env.LLM_ANSWER_MODEL = 'llama-3.1-8b-instant';
+  assert.deepEqual(resolveStage('answer').primary, { provider: 'groq', model: 'llama-3.1-8b-instant' });
+});
+
+test('only resolves a fallback that differs from the primary', () => {
+  assert.equal(resolveStage('chart').fallback, null);
+
+  process.env.LLM_MODEL = 'groq:llama-3.3-70b-versatile';
+  process.env.LLM_FALLBACK_MODEL = 'openai:gpt-4o-mini';
+  assert.deepEqual(resolveStage('chart').fallback, { provider: 'openai', model: 'gpt-4o-mini' });
+
+  process.env.LLM_FALLBACK_MODEL = 'groq:llama-3.3-70b-versatile';
+  assert.equal(resolveStage('chart').fallback, null);
+});
+
+test('falls back once when the primary provider fails', async () => {
+  setProvider('failing', failing('rate limited'));
+  setProvider('backup', createFakeProvider(({ model }) => `answered by ${model}`));
+  process.env.LLM_MODEL = 'failing:m1';
+
+  await assert.rejects(complete('answer', [{ role: 'user', content: 'hi' }]), /rate limited/);
+
+  process.env.LLM_FALLBACK_MODEL = 'backup:m2';
+  assert.equal(await complete('answer', [{ role: 'user', content: 'hi' }]), 'answered by m2');
+  assert.equal(await collect(stream('answer', [{ role: 'user', content: 'hi' }])), 'answered by m2');
+  assert.deepEqual(await completeWithTools('agent', [{ role: 'user', content: 'hi' }], []), { text: 'answered by m2', toolCalls: [] });
+});
+
+test('does not fall back once the primary stream has started', async () => {
+  setProvider('failing', {
+    ...failing('connection reset'),
+    stream: async function* () {
+      yield 'partial ';
+      throw new Error('connection reset');
+    },
+  });
+  setProvider('backup', createFakeProvider(() => 'from the backup'));
+  process.env.LLM_MODEL = 'failing:m1';
+  process.env.LLM_FALLBACK_MODEL = 'backup:m2';
+
+  const chunks: string[] = [];
+  await assert.rejects(async () => {
+    for await (const chunk of stream('answer', [{ role: 'user', content: 'hi' }])) chunks.push(chunk);
+  }, /connection reset/);
+  assert.deepEqual(chunks, ['partial ']);
+});
+
+test('the fake provider reads a toolCalls reply as tool calls', async () => {
+  const provider = createFakeProvider(() => JSON.stringify({
+    toolCalls: [{ name: 'search_documents', arguments: { query: 'tariffs' } }, { name: 'list_tables' }],
+  }));
+  const reply = await provider.completeWithTools({ model: 'm', messages: [{ role: 'user', content: 'hi' }], tools: [] });
+  assert.deepEqual(reply, {
+    text: '',
+    toolCalls: [
+      { id: 'fake_0', name: 'search_documents', arguments: '{"query":"tariffs"}' },
+      { id: 'fake_1', name: 'list_tables', arguments: '{}' },
+    ],
+  });
+});
+
+test('the fake provider treats any other reply as the final answer', async () => {
+  for (const text of ['All done.', '{"answer": 42}', '{"toolCalls": "none"}']) {
+    const provider = createFakeProvider(() => text);
+    const reply = await provider.completeWithTools({ model: 'm', messages: [], tools: [] });
+    assert.deepEqual(reply, { text, toolCalls: [] }, text);
+  }
+});
+
+test('the fake provider shows tool results to the responder as user turns', async () => {
+  let seen: unknown;
+  const provider = createFakeProvider(request => { seen = request.messages; return 'ok'; });
+  await provider.completeWithTools({
+    model: 'm',
+    tools: [],
+    messages: [
+      { role: 'user', content: 'What are the tariffs?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'fake_0', name: 'search_documents', arguments: '{}' }] },
+      { role: 'tool', toolCallId: 'fake_0', name: 'search_documents', content: 'Tariff A' },
+    ],
+  });
+  assert.deepEqual(seen, [
+    { role: 'user', content: 'What are the tariffs?' },
+    { role: 'assistant', content: '' },
+    { role: 'user', content: '[search_documents] Tariff A' },
+  ]);
+});
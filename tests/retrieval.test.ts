@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildIndex, searchIndex, tokenize } from '../app/lib/keywordIndex';
+import { fuse } from '../app/lib/retrieval';
+
+const chunk = (id: string, text: string) => ({ id, metadata: { text, source: 'doc.pdf', agent: 'energy' } });
+
+test('tokenizes to lowercase terms without stopwords or plurals', () => {
+  assert.deepEqual(tokenize('What are the Permits for Form B-12?'), ['permit', 'form', 'b', '12']);
+  assert.deepEqual(tokenize('Business address glass'), ['business', 'address', 'glass']);
+  assert.deepEqual(tokenize('café'), ['cafe']);
+});
+
+test('ranks chunks by BM25', () => {
+  const index = buildIndex([
+    chunk('rates', 'Time of day rates: peak hours are 5 to 8 p.m. on weekdays.'),
+    chunk('rebate', 'Heat pump rebates of up to $3,000 for residential customers.'),
+    chunk('peak', 'Peak peak peak: shift usage out of peak hours to save.'),
+    chunk('phone', 'Call 916-851-8700 for building permits.'),
+  ]);
+
+  assert.deepEqual(searchIndex(index, 'peak hours', 5).map(m => m.id), ['peak', 'rates']);
+  assert.deepEqual(searchIndex(index, 'heat pump rebate', 5).map(m => m.id), ['rebate']);
+  assert.deepEqual(searchIndex(index, '851', 5).map(m => m.id), ['phone']);
+  assert.deepEqual(searchIndex(index, 'what is the', 5), []);
+  assert.equal(searchIndex(index, 'peak hours', 1).length, 1);
+});
+
+test('weights rare terms above common ones', () => {
+  const index = buildIndex([
+    chunk('a', 'solar solar program'),
+    chunk('b', 'program details'),
+    chunk('c', 'program hours'),
+  ]);
+  const [top] = searchIndex(index, 'solar program', 3);
+  assert.equal(top.id, 'a');
+  const scores = Object.fromEntries(searchIndex(index, 'solar program', 3).map(m => [m.id, m.score]));
+  assert.ok(scores.a > 2 * scores.b);
+});
+
+test('fuses rankings by reciprocal rank', () => {
+  const match = (id: string, score: number) => ({ id, score, metadata: chunk(id, id).metadata });
+  const fused = fuse([
+    { key: 'vector', matches: [match('a', 0.9), match('b', 0.8), match('c', 0.7)] },
+    { key: 'keyword', matches: [match('b', 12), match('d', 8), match('a', 3)] },
+  ]);
+
+  // Found by both retrievers beats found by one, whatever the raw scores
+  assert.deepEqual(fused.map(p => p.id), ['b', 'a', 'd', 'c']);
+  assert.equal(fused[0].scores.fused, 1 / 62 + 1 / 61);
+  assert.deepEqual(fused[1].scores, { fused: 1 / 61 + 1 / 63, vector: 0.9, vectorRank: 1, keyword: 3, keywordRank: 3 });
+  assert.deepEqual(fused[2].scores, { fused: 1 / 62, keyword: 8, keywordRank: 2 });
+});
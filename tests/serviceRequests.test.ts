@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  describeIntake, extractServiceRequest, isActiveIntake, isCancellation, isServiceRequestIntent, isSubmission,
+  missingFields, parseIntakeState, serviceRequestSchema, ServiceRequestState,
+} from '../app/lib/serviceRequests';
+
+const COMPLETE = {
+  category: 'Pothole', location: '2729 Prospect Park Dr', description: 'Deep pothole in the right lane',
+  contactName: 'Ana Lopez', contactPhone: '(916) 555-0100',
+};
+
+// An extractor that always answers `fields` as JSON
+const extracting = (fields: object) => async () => `Here you go: ${JSON.stringify(fields)}`;
+
+test('detects requests to file a report', () => {
+  for (const text of ['Report a pothole on Folsom Blvd', "There's graffiti on the park wall", 'I want to file a service request', 'Request a streetlight repair']) {
+    assert.ok(isServiceRequestIntent(text), text);
+  }
+  for (const text of ['How many pothole tickets were there in 2024?', 'What are the peak hours?', 'status of CL0092']) {
+    assert.ok(!isServiceRequestIntent(text), text);
+  }
+});
+
+test('detects cancelling and submitting at the start of a message', () => {
+  assert.ok(isCancellation('Never mind'));
+  assert.ok(isCancellation('cancel that please'));
+  assert.ok(!isCancellation("Don't cancel, the address is 12 Main St"));
+  assert.ok(isSubmission('Yes, submit it'));
+  assert.ok(isSubmission("That's correct"));
+  assert.ok(!isSubmission('No, the location is wrong'));
+  assert.ok(!isSubmission('Was it submitted yet?'));
+});
+
+test('drops invalid fields from the extracted draft and keeps earlier ones', async () => {
+  const draft = await extractServiceRequest('transcript', { contactName: 'Ana' }, extracting({
+    category: 'Noise', location: 'x', description: 'Deep pothole', contactName: null, contactPhone: 'call me', contactEmail: 'ana@example.com',
+  }));
+  assert.deepEqual(draft, { contactName: 'Ana', description: 'Deep pothole', contactEmail: 'ana@example.com' });
+
+  const unchanged = await extractServiceRequest('transcript', { contactName: 'Ana' }, async () => 'no json');
+  assert.deepEqual(unchanged, { contactName: 'Ana' });
+});
+
+test('needs a name and a phone number or email', () => {
+  const { contactPhone, ...withoutPhone } = COMPLETE;
+  assert.deepEqual(missingFields(COMPLETE as any), []);
+  assert.deepEqual(missingFields(withoutPhone as any), ['contact']);
+  assert.deepEqual(missingFields({ ...withoutPhone, contactEmail: 'ana@example.com' } as any), []);
+  assert.deepEqual(missingFields({ ...COMPLETE, contactName: undefined } as any), ['contact']);
+  assert.deepEqual(missingFields({}), ['category', 'location', 'description', 'contact']);
+
+  assert.ok(serviceRequestSchema.safeParse(COMPLETE).success);
+  assert.ok(!serviceRequestSchema.safeParse(withoutPhone).success);
+});
+
+test('only accepts open intakes from the client, with the draft re-checked', () => {
+  const parsed = parseIntakeState({ status: 'confirm', draft: { ...COMPLETE, contactEmail: 'not an email' }, missing: [] });
+  assert.deepEqual(parsed, { status: 'confirm', draft: COMPLETE, missing: [] });
+  assert.equal(parseIntakeState({ status: 'submitted', draft: COMPLETE, ticketId: 'CL0001' }), null);
+  assert.equal(parseIntakeState({ status: 'confirm' }), null);
+  assert.equal(parseIntakeState(null), null);
+  // A client can't skip the missing fields by claiming the intake is ready
+  assert.deepEqual(parseIntakeState({ status: 'confirm', draft: { category: 'Pothole' } })?.missing, ['location', 'description', 'contact']);
+});
+
+test('moves from collecting to confirm to submitted', async () => {
+  const first = await extractServiceRequest('Resident: report a pothole', {}, extracting({ category: 'Pothole' }));
+  let state: ServiceRequestState = { status: 'collecting', draft: first, missing: missingFields(first) };
+  assert.ok(isActiveIntake(state));
+  assert.match(describeIntake(state), /^To file your pothole report I need a few details:/);
+
+  const second = await extractServiceRequest('Resident: details', state.draft, extracting({ ...COMPLETE, category: null, contactPhone: null }));
+  state = { status: 'collecting', draft: second, missing: missingFields(second) };
+  assert.deepEqual(state.missing, ['contact']);
+  assert.match(describeIntake(state), /I need one more detail\. How can the city reach you/);
+
+  const third = await extractServiceRequest('Resident: 916 555 0100', state.draft, extracting({ contactPhone: '916 555 0100' }));
+  state = { status: missingFields(third).length ? 'collecting' : 'confirm', draft: third, missing: missingFields(third) };
+  assert.equal(state.status, 'confirm');
+  assert.ok(serviceRequestSchema.safeParse(state.draft).success);
+  assert.match(describeIntake(state), /check the details of your pothole report/);
+
+  const submitted: ServiceRequestState = { ...state, status: 'submitted', ticketId: 'CL0093' };
+  assert.equal(isActiveIntake(submitted), false);
+  assert.match(describeIntake(submitted), /filed as ticket \*\*CL0093\*\*/);
+  assert.match(describeIntake({ ...state, status: 'cancelled' }), /cancelled the pothole report/);
+});
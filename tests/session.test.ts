@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { createSessionToken, verifySessionToken } from '../app/lib/session';
+
+const SECRET = 's'.repeat(40);
+process.env.SESSION_SECRET = SECRET;
+
+const USER = { sub: 'u1', username: 'ana', displayName: 'Ana', role: 'staff' as const, customerId: null };
+
+// Builds a token by hand, so the payload and signing key can be anything
+const signToken = (payload: object, secret = SECRET) => {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${createHmac('sha256', secret).update(body).digest('base64url')}`;
+};
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+test('round-trips a freshly created token', async () => {
+  const session = await verifySessionToken(await createSessionToken(USER));
+  assert.equal(session?.sub, 'u1');
+  assert.equal(session?.role, 'staff');
+  assert.ok(session!.exp * 1000 > Date.now());
+});
+
+test('rejects expired tokens', async () => {
+  assert.equal(await verifySessionToken(signToken({ ...USER, exp: Math.floor(Date.now() / 1000) - 1 })), null);
+  assert.ok(await verifySessionToken(signToken({ ...USER, exp: inOneHour() })));
+});
+
+test('rejects tokens whose payload was changed after signing', async () => {
+  const [, signature] = (await createSessionToken(USER)).split('.');
+  const forged = Buffer.from(JSON.stringify({ ...USER, role: 'admin', exp: inOneHour() })).toString('base64url');
+  assert.equal(await verifySessionToken(`${forged}.${signature}`), null);
+});
+
+test('rejects tokens signed with another secret', async () => {
+  assert.equal(await verifySessionToken(signToken({ ...USER, exp: inOneHour() }, 'x'.repeat(40))), null);
+});
+
+test('rejects missing, malformed and incomplete tokens', async () => {
+  for (const token of [undefined, '', 'abc', 'abc.', '.abc', 'not base64!.sig']) {
+    assert.equal(await verifySessionToken(token), null, String(token));
+  }
+  assert.equal(await verifySessionToken(signToken({ username: 'ana', exp: inOneHour() })), null);
+  assert.equal(await verifySessionToken(signToken({ sub: 'u1' })), null);
+});
+
+test('normalizes unknown roles', async () => {
+  const session = await verifySessionToken(signToken({ ...USER, role: 'superuser', exp: inOneHour() }));
+  assert.equal(session?.role, 'resident');
+});
@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateSql, MAX_ROWS, RESIDENT_TABLES, CUSTOMER_OWNER_COLUMNS, SqlGuardOptions } from '../app/lib/sqlGuard';
+
+const STAFF: SqlGuardOptions = {};
+const RESIDENT: SqlGuardOptions = {
+  allowedTables: RESIDENT_TABLES,
+  rowScope: { value: 'C-1', ownerColumns: CUSTOMER_OWNER_COLUMNS },
+};
+
+const rejected = (sql: string, options: SqlGuardOptions) => {
+  const result = validateSql(sql, options);
+  assert.equal(result.ok, false, `expected a rejection for: ${sql}`);
+  return result.ok === false ? result.rejection : null;
+};
+
+const accepted = (sql: string, options: SqlGuardOptions = STAFF) => {
+  const result = validateSql(sql, options);
+  assert.ok(result.ok, `expected ${sql} to pass, got ${result.ok === false && result.rejection.message}`);
+  return result.ok ? result.sql : '';
+};
+
+test('rejects functions that dump or probe the database', () => {
+  const queries = [
+    "SELECT schema_to_xml('public', true, false, '')",
+    "SELECT database_to_xml(true, false, '')",
+    "SELECT cursor_to_xml('c', 10, true, false, '')",
+    "SELECT query_to_xml('select * from app_users', true, false, '')",
+    "SELECT table_to_xml('app_users', true, false, '')",
+    "SELECT pg_sleep(10)",
+    "SELECT pg_read_file('/etc/passwd')",
+    "SELECT current_setting('is_superuser')",
+    "SELECT count(*) FROM tickets WHERE pg_catalog.lower(category) = 'x'",
+    "SELECT count(*) FROM tickets WHERE category = version()",
+  ];
+  for (const sql of queries) {
+    for (const options of [STAFF, RESIDENT]) {
+      assert.equal(rejected(sql, options).reason, 'FUNCTION_NOT_ALLOWED', sql);
+    }
+  }
+});
+
+test('rejects set-returning functions, in FROM or anywhere else', () => {
+  const queries = [
+    "SELECT generate_series(1, 100000000)",
+    "SELECT count(*) FROM generate_series(1, 100000000) g",
+    "SELECT count(*) FROM tickets, generate_series(1, 1000) AS g(x)",
+    "SELECT * FROM unnest(array[1, 2]) u",
+    "SELECT * FROM tickets t JOIN LATERAL jsonb_each('{}') j ON true",
+    "SELECT * FROM lower('x') l",
+  ];
+  for (const sql of queries) {
+    for (const options of [STAFF, RESIDENT]) {
+      assert.equal(rejected(sql, options).reason, 'FUNCTION_NOT_ALLOWED', sql);
+    }
+  }
+});
+
+test('accepts aggregate, window, date and math functions', () => {
+  accepted(`
+    SELECT date_trunc('month', created_at) AS month, count(*) AS tickets,
+           round(avg(length(resolution)), 1) AS avg_len,
+           rank() OVER (ORDER BY count(*) DESC) AS rank,
+           coalesce(max(category), 'none') AS top
+    FROM tickets
+    WHERE created_at > now() - interval '1 year' AND extract(year FROM created_at) >= 2024
+    GROUP BY 1
+  `);
+  accepted("SELECT sum(consumption_kwh) FROM energy_usage WHERE month_date >= current_date - 30", RESIDENT);
+});
+
+test('rejects writes, multiple statements and unknown tables or columns', () => {
+  assert.equal(rejected("DELETE FROM tickets", STAFF).reason, 'NOT_SELECT');
+  assert.equal(rejected("SELECT 1; SELECT 2", STAFF).reason, 'MULTIPLE_STATEMENTS');
+  assert.ok(rejected("WITH d AS (DELETE FROM tickets RETURNING *) SELECT * FROM d", STAFF));
+  assert.equal(rejected("SELECT password_hash FROM app_users", STAFF).reason, 'TABLE_NOT_ALLOWED');
+  assert.equal(rejected("SELECT contact_email FROM tickets", STAFF).reason, 'COLUMN_NOT_ALLOWED');
+  assert.equal(rejected("SELECT agent FROM tickets", RESIDENT).reason, 'COLUMN_NOT_ALLOWED');
+});
+
+test('scopes resident queries to their own rows', () => {
+  const sql = accepted("SELECT category, count(*) FROM tickets GROUP BY category", RESIDENT);
+  assert.match(sql, /^WITH tickets AS \(SELECT call_id, customer_id, created_at, category, resolution FROM public\.tickets WHERE customer_id = 'C-1'\) SELECT/);
+
+  const quoted = accepted("SELECT count(*) FROM tickets", { ...RESIDENT, rowScope: { ...RESIDENT.rowScope, value: "x' OR '1'='1" } });
+  assert.match(quoted, /customer_id = 'x'' OR ''1''=''1'/);
+
+  const merged = accepted("WITH recent AS (SELECT * FROM tickets) SELECT count(*) FROM recent", RESIDENT);
+  assert.match(merged, /^WITH tickets AS \(.*\), recent AS/);
+
+  assert.equal(rejected("SELECT count(*) FROM public.tickets", RESIDENT).reason, 'TABLE_NOT_ALLOWED');
+  assert.equal(rejected("WITH tickets AS (SELECT 1 AS category) SELECT category FROM tickets", RESIDENT).reason, 'TABLE_NOT_ALLOWED');
+});
+
+test('caps the number of rows returned', () => {
+  assert.equal(accepted("SELECT category FROM tickets"), `SELECT category FROM tickets LIMIT ${MAX_ROWS}`);
+  assert.equal(accepted("SELECT category FROM tickets LIMIT 10"), "SELECT category FROM tickets LIMIT 10");
+  assert.equal(
+    accepted("SELECT category FROM tickets LIMIT 100000"),
+    `SELECT * FROM (SELECT category FROM tickets LIMIT 100000) AS guarded_query LIMIT ${MAX_ROWS}`
+  );
+  assert.match(accepted("SELECT count(*) FROM tickets", RESIDENT), new RegExp(`LIMIT ${MAX_ROWS}$`));
+});
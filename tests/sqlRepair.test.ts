@@ -0,0 +1,15 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGeneratedSql, describeAdjustments } from '../app/lib/sqlRepair';
+
+test('strips fences, comments and trailing semicolons from generated SQL', () => {
+  assert.deepEqual(parseGeneratedSql('```sql\nSELECT 1;\n```'), { sql: 'SELECT 1' });
+  assert.deepEqual(
+    parseGeneratedSql('-- fix: use the Billing category\nSELECT count(*) FROM tickets;;'),
+    { sql: 'SELECT count(*) FROM tickets', note: 'use the Billing category' }
+  );
+});
+
+test('a single successful attempt needs no adjustment note', () => {
+  assert.equal(describeAdjustments([{ sql: 'SELECT 1', outcome: 'ok', rowCount: 1 }]), null);
+});
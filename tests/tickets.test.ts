@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractTicketIds, introduceTicketLookups, normalizeTicketId } from '../app/lib/tickets';
+
+test('pads ticket numbers to four digits', () => {
+  assert.equal(normalizeTicketId('92'), 'CL0092');
+  assert.equal(normalizeTicketId('0092'), 'CL0092');
+  assert.equal(normalizeTicketId('12345'), 'CL12345');
+});
+
+test('normalizes the ways residents write ticket IDs', () => {
+  assert.deepEqual(extractTicketIds('status of cl92?'), ['CL0092']);
+  assert.deepEqual(extractTicketIds('What about CL-0092'), ['CL0092']);
+  assert.deepEqual(extractTicketIds('ticket CL 7 please'), ['CL0007']);
+  assert.deepEqual(extractTicketIds('Is CL12345 closed?'), ['CL12345']);
+});
+
+test('de-duplicates IDs and keeps their order', () => {
+  assert.deepEqual(extractTicketIds('CL0092, cl92, CL-0011 and CL0092 again'), ['CL0092', 'CL0011']);
+});
+
+test('caps the number of IDs per message', () => {
+  const text = [1, 2, 3, 4, 5, 6, 7].map(n => `CL${n}`).join(' ');
+  assert.deepEqual(extractTicketIds(text), ['CL0001', 'CL0002', 'CL0003', 'CL0004', 'CL0005']);
+});
+
+test('ignores text that only looks like an ID', () => {
+  assert.deepEqual(extractTicketIds('the CLASS of 92, XCL92, CL92a, no ticket here'), []);
+});
+
+test('introduces lookups by naming their tickets', () => {
+  const lookup = (id: string) => ({ id, found: false });
+  assert.equal(introduceTicketLookups([lookup('CL0092')]), "Here's what I found for ticket **CL0092**.");
+  assert.equal(introduceTicketLookups(['CL0001', 'CL0002', 'CL0003'].map(lookup)),
+    "Here's what I found for tickets **CL0001**, **CL0002** and **CL0003**.");
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashPassword, verifyPassword, normalizeUsername } from '../app/lib/users';
+
+test('verifies the password a hash was made from', async () => {
+  const stored = await hashPassword('correct horse');
+  assert.match(stored, /^scrypt\$16384\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+  assert.equal(await verifyPassword('correct horse', stored), true);
+  assert.equal(await verifyPassword('correct horse ', stored), false);
+  assert.equal(await verifyPassword('', stored), false);
+});
+
+test('salts each hash', async () => {
+  const [a, b] = await Promise.all([hashPassword('pw'), hashPassword('pw')]);
+  assert.notEqual(a, b);
+});
+
+test('rejects malformed or tampered hashes', async () => {
+  const stored = await hashPassword('pw');
+  const [, n, salt, hash] = stored.split('$');
+  const flipped = (hash[0] === '0' ? '1' : '0') + hash.slice(1);
+  assert.equal(await verifyPassword('pw', `scrypt$${n}$${salt}$${flipped}`), false);
+  assert.equal(await verifyPassword('pw', `scrypt$${n}$${salt}$${hash.slice(0, 64)}`), false);
+  assert.equal(await verifyPassword('pw', `bcrypt$${n}$${salt}$${hash}`), false);
+  assert.equal(await verifyPassword('pw', ''), false);
+  assert.equal(await verifyPassword('pw', 'pw'), false);
+});
+
+test('normalizes usernames', () => {
+  assert.equal(normalizeUsername('  Ana.Lopez '), 'ana.lopez');
+});
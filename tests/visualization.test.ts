@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildKpiData, buildVisualization, visualizationKind } from '../app/lib/visualization';
+
+const NO_CHOICE = { chart: 'none' as const, title: '', explanation: '' };
+
+test('picks a KPI for a single figure or a current/previous pair', () => {
+  assert.equal(visualizationKind([{ total_calls: 42 }]), 'kpi');
+  assert.equal(visualizationKind([{ month: '2024-03-01', total_kwh: '1200.5' }]), 'kpi');
+  assert.equal(visualizationKind([{ kwh: 10, previous_kwh: 8 }]), 'kpi');
+  assert.equal(visualizationKind([{ month: '2024-02-01', kwh: 8 }, { month: '2024-03-01', kwh: 10 }]), 'kpi');
+});
+
+test('picks a chart for a label column and a few measures', () => {
+  const rows = ['Billing', 'Outage', 'Permits'].map((category, i) => ({ category, calls: 10 * (i + 1) }));
+  assert.equal(visualizationKind(rows), 'chart');
+  assert.equal(visualizationKind([{ a: 'x', calls: 1 }, { a: 'y', calls: 2 }]), 'chart');
+});
+
+test('picks a table for records, extra text columns and wide results', () => {
+  const tickets = [
+    { call_id: 'CL0001', category: 'Billing', resolution: 'Refunded' },
+    { call_id: 'CL0002', category: 'Outage', resolution: 'Crew sent' },
+  ];
+  assert.equal(visualizationKind(tickets), 'table');
+  assert.equal(visualizationKind([{ category: 'A', agent: 'Ana', calls: 1 }, { category: 'B', agent: 'Bo', calls: 2 }]), 'table');
+  const wide = [1, 2].map(n => ({ label: `r${n}`, a: n, b: n, c: n, d: n, e: n }));
+  assert.equal(visualizationKind(wide), 'table');
+  assert.equal(visualizationKind([]), null);
+});
+
+test('builds a KPI with the change against the previous period', () => {
+  const kpi = buildKpiData([{ month: '2024-03-01', total_kwh: 110 }, { month: '2024-02-01', total_kwh: 100 }]);
+  assert.deepEqual(kpi, {
+    type: 'kpi', title: 'Total kwh', value: 110, unit: 'kWh', period: '2024-03-01',
+    previousValue: 100, previousPeriod: '2024-02-01', delta: 10, deltaPercent: 10, explanation: undefined,
+  });
+  assert.equal(buildKpiData([{ a: 'x', b: 'y' }]), null);
+});
+
+test('falls back to a table when the chosen kind does not build', () => {
+  const rows = [{ category: 'Billing', calls: 3 }, { category: 'Outage', calls: 5 }];
+  assert.equal(buildVisualization(rows, 'chart', { ...NO_CHOICE, chart: 'bar' }).type, 'chart');
+  assert.equal(buildVisualization(rows, 'chart', NO_CHOICE).type, 'table');
+  assert.equal(buildVisualization(rows, 'kpi', NO_CHOICE).type, 'table');
+  const empty = buildVisualization([], null, NO_CHOICE);
+  assert.equal(empty.type, 'table');
+});